@@ -7,13 +7,23 @@ import SpotifyPlannedSession from "./pages/SpotifyPlannedSession";
 import SpotifyCallback from "./pages/SpotifyCallback";
 import NTSQuickSession from "./pages/NTSQuickSession";
 import NTSPlannedSession from "./pages/NTSPlannedSession";
+import RadioQuickSession from "./pages/RadioQuickSession";
+import RadioPlannedSession from "./pages/RadioPlannedSession";
+import NoiseQuickSession from "./pages/NoiseQuickSession";
+import NoisePlannedSession from "./pages/NoisePlannedSession";
+import LocalQuickSession from "./pages/LocalQuickSession";
+import LocalPlannedSession from "./pages/LocalPlannedSession";
+import StatsPage from "./pages/StatsPage";
+import UpdatePrompt from "./components/UpdatePrompt";
 
 // =============================================================================
 // Landing page — source picker cards
 // =============================================================================
 //
-// Three big cards that link to /youtube/quick, /spotify/quick, /nts/quick
-// respectively. Each card has the source's accent colour as a dot.
+// One big card per source, linking to /youtube/quick, /spotify/quick,
+// /nts/quick, /radio/quick, /noise/quick and /local/quick respectively.
+// Each card has the source's accent colour as a dot. Below them, a link to
+// the statistics page.
 
 const SOURCES = [
   {
@@ -34,6 +44,24 @@ const SOURCES = [
     description: "Stream NTS live radio during work, pause during breaks.",
     dotClass: "bg-white border border-slate-400",
   },
+  {
+    key: "radio",
+    name: "Radio",
+    description: "Stream any internet radio station during work, pause during breaks.",
+    dotClass: "bg-sky-500",
+  },
+  {
+    key: "noise",
+    name: "Ambient Noise",
+    description: "White, pink, brown or rain noise generated in the browser — no network needed.",
+    dotClass: "bg-indigo-400",
+  },
+  {
+    key: "local",
+    name: "Local Files",
+    description: "Play audio files from your computer — works offline.",
+    dotClass: "bg-amber-500",
+  },
 ] as const;
 
 const LandingPage: React.FC = () => (
@@ -65,6 +93,13 @@ const LandingPage: React.FC = () => (
         </Link>
       ))}
     </div>
+
+    <Link
+      to="/stats"
+      className="mt-8 text-sm text-slate-500 hover:text-slate-700 transition-colors"
+    >
+      View statistics →
+    </Link>
   </div>
 );
 
@@ -76,36 +111,63 @@ const LandingPage: React.FC = () => (
 //   /                       → Landing page (source picker)
 //   /:source/quick          → Quick session for that source
 //   /:source/planned        → Planned session for that source
+//   /stats                  → Focus statistics from the session history
 //
 // The SourceLayout renders a header with the source name, accent dot, and
 // Quick/Planned tab bar, plus an <Outlet /> for the child route.
+//
+// UpdatePrompt sits outside the routes so a new deploy is announced on
+// every page, including the landing page.
 
 const App: React.FC = () => (
-  <Routes>
-    <Route path="/" element={<LandingPage />} />
-
-    <Route path="/youtube" element={<SourceLayout />}>
-      <Route index element={<Navigate to="quick" replace />} />
-      <Route path="quick" element={<YouTubeQuickSession />} />
-      <Route path="planned" element={<YouTubePlannedSession />} />
-    </Route>
-
-    <Route path="/spotify" element={<SourceLayout />}>
-      <Route index element={<Navigate to="quick" replace />} />
-      <Route path="quick" element={<SpotifyQuickSession />} />
-      <Route path="planned" element={<SpotifyPlannedSession />} />
-    </Route>
-    <Route path="/spotify/callback" element={<SpotifyCallback />} />
-
-    <Route path="/nts" element={<SourceLayout />}>
-      <Route index element={<Navigate to="quick" replace />} />
-      <Route path="quick" element={<NTSQuickSession />} />
-      <Route path="planned" element={<NTSPlannedSession />} />
-    </Route>
-
-    {/* Fallback */}
-    <Route path="*" element={<Navigate to="/" replace />} />
-  </Routes>
+  <>
+    <Routes>
+      <Route path="/" element={<LandingPage />} />
+
+      <Route path="/youtube" element={<SourceLayout />}>
+        <Route index element={<Navigate to="quick" replace />} />
+        <Route path="quick" element={<YouTubeQuickSession />} />
+        <Route path="planned" element={<YouTubePlannedSession />} />
+      </Route>
+
+      <Route path="/spotify" element={<SourceLayout />}>
+        <Route index element={<Navigate to="quick" replace />} />
+        <Route path="quick" element={<SpotifyQuickSession />} />
+        <Route path="planned" element={<SpotifyPlannedSession />} />
+      </Route>
+      <Route path="/spotify/callback" element={<SpotifyCallback />} />
+
+      <Route path="/nts" element={<SourceLayout />}>
+        <Route index element={<Navigate to="quick" replace />} />
+        <Route path="quick" element={<NTSQuickSession />} />
+        <Route path="planned" element={<NTSPlannedSession />} />
+      </Route>
+
+      <Route path="/radio" element={<SourceLayout />}>
+        <Route index element={<Navigate to="quick" replace />} />
+        <Route path="quick" element={<RadioQuickSession />} />
+        <Route path="planned" element={<RadioPlannedSession />} />
+      </Route>
+
+      <Route path="/noise" element={<SourceLayout />}>
+        <Route index element={<Navigate to="quick" replace />} />
+        <Route path="quick" element={<NoiseQuickSession />} />
+        <Route path="planned" element={<NoisePlannedSession />} />
+      </Route>
+
+      <Route path="/local" element={<SourceLayout />}>
+        <Route index element={<Navigate to="quick" replace />} />
+        <Route path="quick" element={<LocalQuickSession />} />
+        <Route path="planned" element={<LocalPlannedSession />} />
+      </Route>
+
+      <Route path="/stats" element={<StatsPage />} />
+
+      {/* Fallback */}
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+    <UpdatePrompt />
+  </>
 );
 
 export default App;
@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import type { BreakMediaKind, BreakMediaSettings } from "../types";
+import { extractVideoId, fetchVideoData } from "../utils";
+
+// =============================================================================
+// BreakMediaPanel — Choose what plays during breaks
+// =============================================================================
+//
+// Rendered on every session page next to the timer settings; the choice is
+// kept per source by useBreakMedia. The YouTube option takes a single video
+// URL here. The Spotify option is picked with a second SpotifyContextPicker,
+// which the Spotify pages render below this panel.
+
+export interface BreakMediaPanelProps {
+  settings: BreakMediaSettings;
+  kinds: BreakMediaKind[];
+  onSelectKind: (kind: BreakMediaKind) => void;
+  onSelectYouTubeVideo: (videoId: string | null, title?: string) => void;
+}
+
+const KIND_LABELS: Record<BreakMediaKind, string> = {
+  silence: "Silence",
+  chime: "Chime",
+  youtube: "YouTube",
+  spotify: "Spotify",
+};
+
+const KIND_HINTS: Record<BreakMediaKind, string> = {
+  silence: "The work media pauses during breaks.",
+  chime: "A soft chime rings every few seconds during breaks.",
+  youtube: "The video plays in a small corner player during breaks.",
+  spotify: "The break music plays during breaks; work music picks up where it left off.",
+};
+
+const BreakMediaPanel: React.FC<BreakMediaPanelProps> = ({
+  settings,
+  kinds,
+  onSelectKind,
+  onSelectYouTubeVideo,
+}) => {
+  const [url, setUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    const id = extractVideoId(url);
+    if (!id) {
+      setError("Invalid YouTube URL.");
+      return;
+    }
+    setError(null);
+    setUrl("");
+    const { title } = await fetchVideoData(id);
+    onSelectYouTubeVideo(id, title);
+  };
+
+  return (
+    <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mb-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-3">During breaks</h2>
+
+      <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white mb-2">
+        {kinds.map((kind) => (
+          <button
+            key={kind}
+            onClick={() => onSelectKind(kind)}
+            className={`px-3 py-1.5 text-sm rounded-[6px] transition-colors cursor-pointer ${
+              settings.kind === kind ? "bg-slate-900 text-white" : "text-slate-600 hover:text-slate-900"
+            }`}
+          >
+            {KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-400">{KIND_HINTS[settings.kind]}</p>
+
+      {settings.kind === "youtube" && (
+        <div className="mt-3">
+          {settings.youtubeVideoId ? (
+            <div className="flex items-center gap-3 p-3 rounded-md border border-slate-200 bg-slate-50">
+              <img
+                src={`https://img.youtube.com/vi/${settings.youtubeVideoId}/default.jpg`}
+                alt=""
+                className="w-14 h-10 rounded object-cover flex-shrink-0"
+              />
+              <p className="flex-1 min-w-0 text-sm font-medium text-slate-900 truncate">
+                {settings.youtubeTitle ?? settings.youtubeVideoId}
+              </p>
+              <button
+                onClick={() => onSelectYouTubeVideo(null)}
+                className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50 cursor-pointer transition-colors flex-shrink-0"
+                title="Clear break video"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSubmit();
+                }}
+                placeholder="Paste a YouTube URL for breaks"
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white border border-slate-300 rounded-md text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+              />
+              <button
+                onClick={handleSubmit}
+                disabled={!url.trim()}
+                className="px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Set video
+              </button>
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BreakMediaPanel;
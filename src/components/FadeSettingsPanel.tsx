@@ -0,0 +1,77 @@
+import React, { useState } from "react";
+import { useFadeSettings } from "../hooks/useFadeSettings";
+import { MAX_FADE_SECONDS } from "../fadeSettings";
+
+// =============================================================================
+// FadeSettingsPanel — How work media fades in and out
+// =============================================================================
+//
+// Collapsible panel rendered by SourceLayout under every session page, next
+// to the notification settings. Sets how many seconds the work media takes
+// to fade in when a work interval starts and to fade out before it ends
+// (see fadeSettings.ts). Both are off by default and shared by all sources.
+
+const clampFade = (n: number): number =>
+  Math.min(MAX_FADE_SECONDS, Math.max(0, Math.round(n) || 0));
+
+const FADE_FIELDS = [
+  { key: "fadeInSeconds", label: "Fade in at the start of work" },
+  { key: "fadeOutSeconds", label: "Fade out before a break" },
+] as const;
+
+const FadeSettingsPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const { settings, updateSettings } = useFadeSettings();
+  const enabled = settings.fadeInSeconds > 0 || settings.fadeOutSeconds > 0;
+
+  return (
+    <div className="w-full mt-4 bg-white rounded-lg border border-slate-200">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left cursor-pointer"
+        aria-expanded={open}
+      >
+        <span className="font-medium text-slate-900">Volume fades</span>
+        <span className="flex items-center gap-2 text-xs text-slate-500">
+          {enabled ? "On" : "Off"}
+          <svg
+            className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-3 border-t border-slate-200 pt-4">
+          {FADE_FIELDS.map((field) => (
+            <label key={field.key} className="flex items-center justify-between gap-3 text-sm text-slate-700">
+              {field.label}
+              <span className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_FADE_SECONDS}
+                  value={settings[field.key]}
+                  onChange={(e) =>
+                    updateSettings({ [field.key]: clampFade(parseInt(e.target.value, 10)) })
+                  }
+                  className="w-16 px-2 py-1 text-sm font-mono bg-white border border-slate-200 rounded text-slate-700 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+                />
+                <span className="text-xs text-slate-500">sec</span>
+              </span>
+            </label>
+          ))}
+          <p className="text-xs text-slate-400">
+            0 cuts straight in or out. Works with YouTube, Spotify, NTS and internet radio.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FadeSettingsPanel;
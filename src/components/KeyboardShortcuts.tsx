@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import type { KeyboardShortcut } from "../types";
+import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
+
+// =============================================================================
+// KeyboardShortcuts — Registers a page's shortcuts and shows the help overlay
+// =============================================================================
+//
+// Each session page renders one of these with the shortcuts that make sense
+// for it (timer controls, plus e.g. NTS channels or the YouTube queue).
+// "?" toggles an overlay listing them; Esc closes the overlay before it
+// reaches any page shortcut bound to Esc.
+
+export interface KeyboardShortcutsProps {
+  shortcuts: KeyboardShortcut[];
+}
+
+const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({ shortcuts }) => {
+  const [helpOpen, setHelpOpen] = useState(false);
+
+  // While the overlay is open only ? and Esc do anything
+  const helpShortcut: KeyboardShortcut = {
+    keys: ["?"],
+    label: "?",
+    description: "Show / hide this help",
+    action: () => setHelpOpen((open) => !open),
+  };
+  const active: KeyboardShortcut[] = helpOpen
+    ? [helpShortcut, { keys: ["Escape"], label: "Esc", description: "", action: () => setHelpOpen(false) }]
+    : [...shortcuts, helpShortcut];
+  useKeyboardShortcuts(active);
+
+  return (
+    <>
+      <button
+        onClick={() => setHelpOpen(true)}
+        className="mt-6 text-xs text-slate-400 hover:text-slate-600 transition-colors cursor-pointer"
+      >
+        Keyboard shortcuts <kbd className="ml-1 px-1.5 py-0.5 rounded border border-slate-300 font-mono">?</kbd>
+      </button>
+
+      {helpOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 px-6"
+          onClick={() => setHelpOpen(false)}
+        >
+          <div
+            className="w-full max-w-sm bg-white rounded-xl border border-slate-200 shadow-lg p-5"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label="Keyboard shortcuts"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-slate-900">Keyboard shortcuts</h2>
+              <button
+                onClick={() => setHelpOpen(false)}
+                className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-slate-600 hover:bg-slate-50 cursor-pointer"
+                title="Close"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+            <div className="space-y-2">
+              {[...shortcuts, helpShortcut].map((s) => (
+                <div key={s.label} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="text-slate-700">{s.description}</span>
+                  <kbd className="min-w-[2rem] text-center px-2 py-0.5 rounded border border-slate-300 bg-slate-50 font-mono text-xs text-slate-700">
+                    {s.label}
+                  </kbd>
+                </div>
+              ))}
+            </div>
+            <p className="mt-4 text-xs text-slate-400">
+              Shortcuts are ignored while you're typing in a field.
+            </p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default KeyboardShortcuts;
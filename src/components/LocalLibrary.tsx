@@ -0,0 +1,157 @@
+import React from "react";
+import type { LocalTrack, RepeatMode } from "../types";
+
+// =============================================================================
+// LocalLibrary — Track list and playback options for the local file source
+// =============================================================================
+//
+// Shared by LocalQuickSession and LocalPlannedSession. Shows the "Add files" /
+// "Add folder" buttons, the picked tracks (click one to make it current),
+// and the shuffle / repeat toggles. All state lives in useLocalFileProvider.
+
+export interface LocalLibraryProps {
+  tracks: LocalTrack[];
+  currentIndex: number;
+  isPlaying: boolean;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onPickFiles: () => void;
+  onPickFolder: () => void;
+  onSelectTrack: (index: number) => void;
+  onRemoveTrack: (id: string) => void;
+  onClearTracks: () => void;
+  onShuffleChange: (v: boolean) => void;
+  onRepeatChange: (v: RepeatMode) => void;
+}
+
+const REPEAT_MODES: { key: RepeatMode; label: string }[] = [
+  { key: "off", label: "Off" },
+  { key: "all", label: "All" },
+  { key: "one", label: "One" },
+];
+
+const LocalLibrary: React.FC<LocalLibraryProps> = ({
+  tracks,
+  currentIndex,
+  isPlaying,
+  shuffle,
+  repeat,
+  onPickFiles,
+  onPickFolder,
+  onSelectTrack,
+  onRemoveTrack,
+  onClearTracks,
+  onShuffleChange,
+  onRepeatChange,
+}) => {
+  return (
+    <div className="w-full mb-6">
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-slate-900">Library</h2>
+          {tracks.length > 0 && (
+            <button
+              onClick={onClearTracks}
+              className="text-xs text-slate-500 hover:text-slate-700 transition-colors cursor-pointer"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-3 mb-4">
+          <button
+            onClick={onPickFiles}
+            className="flex-1 bg-slate-900 text-white px-4 py-2.5 rounded-md hover:bg-slate-800 transition-colors duration-200 font-medium cursor-pointer"
+          >
+            Add files
+          </button>
+          <button
+            onClick={onPickFolder}
+            className="flex-1 border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2.5 rounded-md font-medium transition-colors duration-200 cursor-pointer"
+          >
+            Add folder
+          </button>
+        </div>
+
+        {/* Shuffle / repeat */}
+        <div className="flex flex-wrap gap-4 items-center mb-4">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={shuffle}
+              onChange={(e) => onShuffleChange(e.target.checked)}
+            />
+            Shuffle
+          </label>
+          <div className="flex gap-3 items-center">
+            <div className="text-xs text-slate-600">Repeat:</div>
+            <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white">
+              {REPEAT_MODES.map((r) => {
+                const active = repeat === r.key;
+                return (
+                  <button
+                    key={r.key}
+                    onClick={() => onRepeatChange(r.key)}
+                    className={`${
+                      active
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-700 hover:bg-slate-50"
+                    } px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors`}
+                    aria-pressed={active}
+                  >
+                    {r.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        {/* Track list */}
+        {tracks.length > 0 ? (
+          <div className="space-y-1 max-h-72 overflow-y-auto">
+            {tracks.map((track, index) => {
+              const current = index === currentIndex;
+              return (
+                <div
+                  key={track.id}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-md ${
+                    current ? "bg-slate-100" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <span className="text-sm font-mono text-slate-400 w-6 flex-shrink-0">
+                    {index + 1}.
+                  </span>
+                  <button
+                    onClick={() => onSelectTrack(index)}
+                    className="flex-1 min-w-0 text-left text-sm text-slate-900 truncate cursor-pointer"
+                    title={track.name}
+                  >
+                    {track.name}
+                  </button>
+                  {current && isPlaying && (
+                    <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse flex-shrink-0" />
+                  )}
+                  <button
+                    onClick={() => onRemoveTrack(track.id)}
+                    className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50 cursor-pointer transition-colors flex-shrink-0"
+                    title="Remove"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-6 text-slate-400 text-sm border border-dashed border-slate-200 rounded-lg">
+            Pick audio files or a folder from your computer. Nothing is uploaded.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LocalLibrary;
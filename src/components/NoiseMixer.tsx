@@ -0,0 +1,93 @@
+import React from "react";
+import type { NoiseColor, NoiseSettings } from "../types";
+
+// =============================================================================
+// NoiseMixer — Layer levels and master volume for the ambient noise source
+// =============================================================================
+//
+// Shared by NoiseQuickSession and NoisePlannedSession. Changes apply live
+// while noise is playing; settings are persisted by useNoiseProvider.
+
+export interface NoiseMixerProps {
+  settings: NoiseSettings;
+  isPlaying: boolean;
+  onLevelChange: (color: NoiseColor, level: number) => void;
+  onVolumeChange: (volume: number) => void;
+}
+
+const LAYERS: { key: NoiseColor; label: string; hint: string }[] = [
+  { key: "white", label: "White", hint: "Bright hiss" },
+  { key: "pink", label: "Pink", hint: "Balanced, like steady wind" },
+  { key: "brown", label: "Brown", hint: "Deep rumble" },
+  { key: "rain", label: "Rain", hint: "Patter on a window" },
+];
+
+const NoiseMixer: React.FC<NoiseMixerProps> = ({
+  settings,
+  isPlaying,
+  onLevelChange,
+  onVolumeChange,
+}) => {
+  const silent = LAYERS.every((l) => settings.levels[l.key] === 0);
+
+  return (
+    <div className="w-full mb-6">
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-slate-900">Mix</h2>
+          <span className="flex items-center gap-2 text-xs text-slate-500">
+            <span className={`w-2 h-2 rounded-full ${isPlaying ? "bg-green-500 animate-pulse" : "bg-slate-300"}`} />
+            {isPlaying ? "Playing" : "Silent"}
+          </span>
+        </div>
+
+        <div className="space-y-3">
+          {LAYERS.map((layer) => (
+            <div key={layer.key} className="grid grid-cols-[5rem_1fr_2.5rem] items-center gap-3">
+              <div>
+                <div className="text-sm font-medium text-slate-700">{layer.label}</div>
+                <div className="text-[11px] text-slate-400 leading-tight">{layer.hint}</div>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={settings.levels[layer.key]}
+                onChange={(e) => onLevelChange(layer.key, parseFloat(e.target.value))}
+                aria-label={`${layer.label} noise level`}
+              />
+              <span className="text-xs font-mono text-slate-500 text-right">
+                {Math.round(settings.levels[layer.key] * 100)}
+              </span>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-[5rem_1fr_2.5rem] items-center gap-3 pt-3 border-t border-slate-200">
+            <div className="text-sm font-semibold text-slate-900">Volume</div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.volume}
+              onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+              aria-label="Master volume"
+            />
+            <span className="text-xs font-mono text-slate-500 text-right">
+              {Math.round(settings.volume * 100)}
+            </span>
+          </div>
+        </div>
+
+        {silent && (
+          <p className="text-xs text-amber-700 mt-3">
+            All layers are at zero — raise at least one to hear anything.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NoiseMixer;
@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import type { ChimeStyle, TimerTransition } from "../types";
+import { useNotificationSettings } from "../hooks/useNotificationSettings";
+import { isNotificationSupported, playChime } from "../notifications";
+
+// =============================================================================
+// NotificationSettingsPanel — Opt-in alerts for timer transitions
+// =============================================================================
+//
+// Collapsible panel rendered by SourceLayout under every session page. Lets
+// the user turn on desktop notifications and/or a synthesised chime, pick
+// the chime voice and volume, and choose which transitions trigger them.
+// Settings are shared across all sources.
+
+const TRANSITION_LABELS: { key: TimerTransition; label: string }[] = [
+  { key: "workToBreak", label: "Work → break" },
+  { key: "breakToWork", label: "Break → work" },
+  { key: "sessionComplete", label: "Session complete" },
+];
+
+const CHIME_STYLES: { key: ChimeStyle; label: string }[] = [
+  { key: "bell", label: "Bell" },
+  { key: "digital", label: "Digital" },
+  { key: "soft", label: "Soft" },
+];
+
+const NotificationSettingsPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const { settings, updateSettings, setDesktopEnabled } = useNotificationSettings();
+  const notificationsBlocked =
+    isNotificationSupported() && Notification.permission === "denied";
+
+  return (
+    <div className="w-full mt-8 bg-white rounded-lg border border-slate-200">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left cursor-pointer"
+        aria-expanded={open}
+      >
+        <span className="font-medium text-slate-900">Notifications &amp; sounds</span>
+        <span className="flex items-center gap-2 text-xs text-slate-500">
+          {settings.desktop || settings.sound ? "On" : "Off"}
+          <svg
+            className={`w-4 h-4 transition-transform ${open ? "rotate-180" : ""}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" />
+          </svg>
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4 border-t border-slate-200 pt-4">
+          {/* Channels */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.desktop}
+                disabled={!isNotificationSupported() || notificationsBlocked}
+                onChange={(e) => setDesktopEnabled(e.target.checked)}
+              />
+              Desktop notification
+              {notificationsBlocked && (
+                <span className="text-xs text-slate-400">(blocked in browser settings)</span>
+              )}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.sound}
+                onChange={(e) => updateSettings({ sound: e.target.checked })}
+              />
+              Play a chime
+            </label>
+          </div>
+
+          {/* Chime voice + volume */}
+          <div className="flex flex-wrap gap-3 items-center">
+            <div className="text-xs text-slate-600">Chime:</div>
+            <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white">
+              {CHIME_STYLES.map((c) => {
+                const active = settings.chimeStyle === c.key;
+                return (
+                  <button
+                    key={c.key}
+                    onClick={() => updateSettings({ chimeStyle: c.key })}
+                    className={`${
+                      active
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-700 hover:bg-slate-50"
+                    } px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors`}
+                    aria-pressed={active}
+                  >
+                    {c.label}
+                  </button>
+                );
+              })}
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.volume}
+              onChange={(e) => updateSettings({ volume: parseFloat(e.target.value) })}
+              className="w-28"
+              aria-label="Chime volume"
+            />
+            <button
+              onClick={() => playChime("workToBreak", settings.chimeStyle, settings.volume)}
+              className="text-slate-500 hover:text-slate-700 text-sm font-medium px-3 py-1.5 rounded-md border border-slate-200 hover:bg-slate-50 transition-colors cursor-pointer"
+            >
+              Test
+            </button>
+          </div>
+
+          {/* Per-transition toggles */}
+          <div>
+            <div className="text-xs text-slate-600 mb-2">Alert on:</div>
+            <div className="flex flex-wrap gap-4">
+              {TRANSITION_LABELS.map((t) => (
+                <label key={t.key} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.transitions[t.key]}
+                    onChange={(e) =>
+                      updateSettings({
+                        transitions: { ...settings.transitions, [t.key]: e.target.checked },
+                      })
+                    }
+                  />
+                  {t.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettingsPanel;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useLocation, useSearchParams } from "react-router-dom";
+import type { ImportedPlan, IntervalBlock, QueuedVideo } from "../types";
+import { downloadPlan, readPlanFile, PlanFileError } from "../planFiles";
+import { buildPlanLink, decodePlanParam, PlanLinkError, PLAN_PARAM } from "../planLinks";
+
+// =============================================================================
+// PlanFileControls — Import / export / share buttons for the planning phase
+// =============================================================================
+//
+// Shared by every planned session page. Export downloads the current plan as
+// JSON; import reads one back and hands it to the page via onImport. "Copy
+// link" puts a ?plan=... link to this page on the clipboard (see
+// planLinks.ts), and a page opened from such a link gets the plan through the
+// same onImport callback. Errors from either are shown under the buttons.
+
+export interface PlanFileControlsProps {
+  intervalBlocks: IntervalBlock[];
+  // YouTube only: include the queue in exports and links
+  videoQueue?: QueuedVideo[];
+  onImport: (plan: ImportedPlan) => void;
+}
+
+const PlanFileControls: React.FC<PlanFileControlsProps> = ({
+  intervalBlocks,
+  videoQueue,
+  onImport,
+}) => {
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // ---- Plan from a shared link ----
+  // Applied once, then dropped from the URL so a later reload or back
+  // navigation doesn't overwrite the user's edits.
+  const planParam = searchParams.get(PLAN_PARAM);
+  const handledParamRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (planParam === null || planParam === handledParamRef.current) return;
+    handledParamRef.current = planParam;
+    try {
+      onImport(decodePlanParam(planParam));
+      setMessage(null);
+    } catch (err) {
+      if (!(err instanceof PlanLinkError)) throw err;
+      setMessage({ text: `Couldn't open the shared plan: ${err.message}`, error: true });
+    }
+    setSearchParams(
+      (prev) => {
+        prev.delete(PLAN_PARAM);
+        return prev;
+      },
+      { replace: true },
+    );
+  }, [planParam, onImport, setSearchParams]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(await readPlanFile(file));
+      setMessage(null);
+    } catch (err) {
+      if (err instanceof PlanFileError) {
+        setMessage({ text: err.message, error: true });
+      } else {
+        console.error("Failed to import plan:", err);
+        setMessage({ text: "Could not import that plan.", error: true });
+      }
+    }
+    // Allow picking the same file again after fixing it
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleCopyLink = async () => {
+    let link: string;
+    try {
+      link = buildPlanLink(location.pathname, intervalBlocks, videoQueue);
+    } catch (err) {
+      if (!(err instanceof PlanLinkError)) throw err;
+      setMessage({ text: err.message, error: true });
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(link);
+      setMessage({ text: "Share link copied to clipboard", error: false });
+    } catch (err) {
+      console.error("Failed to copy share link:", err);
+      setMessage({ text: "Could not copy — your browser blocked clipboard access.", error: true });
+    }
+  };
+
+  const hasPlan = intervalBlocks.length > 0;
+  const needsPlanTitle = hasPlan ? undefined : "Add an interval block first";
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="text-slate-700 hover:bg-slate-50 px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors"
+        >
+          Import
+        </button>
+        <button
+          onClick={() => downloadPlan(intervalBlocks, videoQueue)}
+          disabled={!hasPlan}
+          className="text-slate-700 hover:bg-slate-50 px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title={needsPlanTitle ?? "Download this plan as a file"}
+        >
+          Export
+        </button>
+        <button
+          onClick={handleCopyLink}
+          disabled={!hasPlan}
+          className="text-slate-700 hover:bg-slate-50 px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title={needsPlanTitle ?? "Copy a link that opens this plan"}
+        >
+          Copy share link
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {message && (
+        <p className={`text-xs text-right max-w-xs ${message.error ? "text-red-600" : "text-slate-500"}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PlanFileControls;
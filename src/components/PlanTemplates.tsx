@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import type { IntervalBlock, PlanTemplate } from "../types";
+import { usePlanTemplates } from "../hooks/usePlanTemplates";
+import { formatDuration } from "../utils";
+
+// =============================================================================
+// PlanTemplates — Saved plan library for the planning phase
+// =============================================================================
+//
+// Shared by every planned session page, in place of the old fixed preset row.
+// Loading a template replaces the current interval blocks; "Save current
+// plan" stores the blocks being built under a name. Rename happens inline.
+
+export interface PlanTemplatesProps {
+  intervalBlocks: IntervalBlock[];
+  onLoad: (blocks: IntervalBlock[]) => void;
+}
+
+// "4×25/5 · 2×45/15"
+const describeBlocks = (blocks: PlanTemplate["blocks"]): string =>
+  blocks.map((b) => `${b.repeat}×${b.workMinutes}/${b.breakMinutes}`).join(" · ");
+
+// Total length, minus the trailing break the timer skips
+const totalMinutes = (blocks: PlanTemplate["blocks"]): number => {
+  const total = blocks.reduce((sum, b) => sum + b.repeat * (b.workMinutes + b.breakMinutes), 0);
+  return blocks.length > 0 ? total - blocks[blocks.length - 1].breakMinutes : 0;
+};
+
+const iconButtonClass =
+  "w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-slate-600 hover:bg-slate-50 cursor-pointer transition-colors flex-shrink-0";
+
+const PlanTemplates: React.FC<PlanTemplatesProps> = ({ intervalBlocks, onLoad }) => {
+  const {
+    templates,
+    saveTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    templateBlocks,
+  } = usePlanTemplates();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const handleSave = () => {
+    if (intervalBlocks.length === 0) return;
+    saveTemplate(newName, intervalBlocks);
+    setNewName("");
+  };
+
+  const commitRename = () => {
+    if (editingId) renameTemplate(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 mb-4">
+      <div className="text-sm font-medium text-slate-700 mb-3">Templates</div>
+
+      {templates.length > 0 ? (
+        <div className="space-y-1 mb-3">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-slate-50">
+              {editingId === template.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  autoFocus
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-300 rounded outline-none focus:ring-2 focus:ring-slate-900/10"
+                />
+              ) : (
+                <button
+                  onClick={() => onLoad(templateBlocks(template))}
+                  className="flex-1 min-w-0 text-left cursor-pointer"
+                  title="Load this plan"
+                >
+                  <div className="text-sm text-slate-900 truncate">{template.name}</div>
+                  <div className="text-xs text-slate-400 truncate">
+                    {describeBlocks(template.blocks)} — ~{formatDuration(totalMinutes(template.blocks))}
+                  </div>
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setEditingId(template.id);
+                  setEditingName(template.name);
+                }}
+                className={iconButtonClass}
+                title="Rename"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1.464-4.536z" /></svg>
+              </button>
+              <button onClick={() => duplicateTemplate(template.id)} className={iconButtonClass} title="Duplicate">
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+              </button>
+              <button
+                onClick={() => deleteTemplate(template.id)}
+                className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50 cursor-pointer transition-colors flex-shrink-0"
+                title="Delete"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-xs text-slate-400 mb-3">
+          No templates yet — build a plan below and save it here.
+        </div>
+      )}
+
+      {/* Save current plan */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSave();
+          }}
+          placeholder="Template name"
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white border border-slate-300 rounded-md text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+        />
+        <button
+          onClick={handleSave}
+          disabled={intervalBlocks.length === 0}
+          className="px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+          title={intervalBlocks.length === 0 ? "Add an interval block first" : undefined}
+        >
+          Save current plan
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlanTemplates;
@@ -4,30 +4,46 @@ import React, { type ChangeEvent } from "react";
 // PomodoroSettings — Shared settings panel for Quick Session mode
 // =============================================================================
 //
-// Renders the work minutes / break minutes / total pomodoros number inputs
-// plus the preset buttons (25/5, 45/15, 60/30). All state comes from the
-// usePomodoro hook via props. Disabled when the timer is running.
+// Renders the work minutes / break minutes / total pomodoros number inputs,
+// the long break length / interval inputs, plus the preset buttons
+// (25/5, 45/15, 60/30). All state comes from the usePomodoro hook via props.
+// Disabled when the timer is running.
 
 export interface PomodoroSettingsProps {
   workMinutes: number;
   breakMinutes: number;
   totalPomodoros: number;
+  longBreakMinutes: number;
+  longBreakInterval: number;
   isRunning: boolean;
   isWorking: boolean;
   onWorkMinutesChange: (v: number) => void;
   onBreakMinutesChange: (v: number) => void;
   onTotalPomodorosChange: (v: number) => void;
+  onLongBreakMinutesChange: (v: number) => void;
+  onLongBreakIntervalChange: (v: number) => void;
   onPreset: (workMins: number, breakMins: number) => void;
 }
 
+// A cleared or non-numeric field keeps the previous value, so NaN never
+// reaches the timer (or the saved session)
+const parseCount = (text: string, previous: number): number => {
+  const n = parseInt(text, 10);
+  return Number.isNaN(n) ? previous : Math.max(1, n);
+};
+
 const PomodoroSettings: React.FC<PomodoroSettingsProps> = ({
   workMinutes,
   breakMinutes,
   totalPomodoros,
+  longBreakMinutes,
+  longBreakInterval,
   isRunning,
   onWorkMinutesChange,
   onBreakMinutesChange,
   onTotalPomodorosChange,
+  onLongBreakMinutesChange,
+  onLongBreakIntervalChange,
   onPreset,
 }) => {
   return (
@@ -83,6 +99,42 @@ const PomodoroSettings: React.FC<PomodoroSettingsProps> = ({
         </div>
       </div>
 
+      {/* Long break settings */}
+      <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+        <div className="bg-white p-4 rounded-lg border border-slate-200">
+          <label className="mb-2 font-medium text-gray-700 block">
+            Long Break Minutes
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="60"
+            value={longBreakMinutes}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              onLongBreakMinutesChange(parseCount(e.target.value, longBreakMinutes))
+            }
+            className="p-3 border border-gray-200 rounded-lg w-full focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 outline-none transition-all duration-200"
+            disabled={isRunning}
+          />
+        </div>
+        <div className="bg-white p-4 rounded-lg border border-slate-200">
+          <label className="mb-2 font-medium text-gray-700 block">
+            Long Break Every (Pomodoros)
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={longBreakInterval}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              onLongBreakIntervalChange(parseCount(e.target.value, longBreakInterval))
+            }
+            className="p-3 border border-gray-200 rounded-lg w-full focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400 outline-none transition-all duration-200"
+            disabled={isRunning}
+          />
+        </div>
+      </div>
+
       {/* Preset buttons */}
       <div className="w-full mb-8">
         <div className="flex gap-3 flex-row items-center">
@@ -0,0 +1,193 @@
+import React, { useRef, useState } from "react";
+import type { RadioStation } from "../types";
+
+// =============================================================================
+// RadioStationPicker — Saved station list for the internet radio source
+// =============================================================================
+//
+// Shared by RadioQuickSession and RadioPlannedSession. Lets the user add a
+// stream by name + URL, import .pls / .m3u files, and pick, rename or remove
+// saved stations. All state lives in useRadioProvider.
+
+export interface RadioStationPickerProps {
+  stations: RadioStation[];
+  selectedStation: RadioStation | null;
+  onSelectStation: (id: string) => void;
+  onAddStation: (name: string, url: string) => string | null;
+  onRenameStation: (id: string, name: string) => void;
+  onRemoveStation: (id: string) => void;
+  onImportPlaylist: (file: File) => Promise<number | string>;
+}
+
+const inputClass =
+  "px-3.5 py-2.5 bg-white border border-slate-300 rounded-md text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400";
+
+const RadioStationPicker: React.FC<RadioStationPickerProps> = ({
+  stations,
+  selectedStation,
+  onSelectStation,
+  onAddStation,
+  onRenameStation,
+  onRemoveStation,
+  onImportPlaylist,
+}) => {
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = () => {
+    const error = onAddStation(name, url);
+    if (error) {
+      setMessage({ text: error, error: true });
+    } else {
+      setName("");
+      setUrl("");
+      setMessage(null);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    const result = await onImportPlaylist(file);
+    setMessage(
+      typeof result === "string"
+        ? { text: result, error: true }
+        : { text: `Imported ${result} station${result !== 1 ? "s" : ""}`, error: false },
+    );
+    // Allow re-importing the same file
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const commitRename = () => {
+    if (editingId) onRenameStation(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="w-full mb-6">
+      <div className="bg-white rounded-lg border border-slate-200 p-4">
+        <h2 className="text-lg font-semibold text-slate-900 mb-3">Stations</h2>
+
+        {/* Add station */}
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className={inputClass}
+          />
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleAdd();
+            }}
+            placeholder="https://example.com/stream.mp3"
+            className={inputClass}
+          />
+          <button
+            onClick={handleAdd}
+            className="bg-slate-900 text-white px-4 py-2.5 rounded-md hover:bg-slate-800 transition-colors duration-200 font-medium cursor-pointer"
+          >
+            Add
+          </button>
+        </div>
+
+        <div className="mt-3 flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors cursor-pointer"
+          >
+            Import .pls / .m3u
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pls,.m3u,.m3u8,audio/x-scpls,audio/x-mpegurl,audio/mpegurl"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+          {message && (
+            <span className={`text-sm ${message.error ? "text-red-600" : "text-slate-500"}`}>
+              {message.text}
+            </span>
+          )}
+        </div>
+
+        {/* Station list */}
+        {stations.length > 0 ? (
+          <div className="mt-4 space-y-1 max-h-72 overflow-y-auto">
+            {stations.map((station) => {
+              const selected = station.id === selectedStation?.id;
+              return (
+                <div
+                  key={station.id}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-md ${
+                    selected ? "bg-slate-100" : "hover:bg-slate-50"
+                  }`}
+                >
+                  <span
+                    className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                      selected ? "bg-slate-900" : "bg-slate-300"
+                    }`}
+                  />
+                  {editingId === station.id ? (
+                    <input
+                      type="text"
+                      value={editingName}
+                      autoFocus
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-300 rounded outline-none focus:ring-2 focus:ring-slate-900/10"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => onSelectStation(station.id)}
+                      className="flex-1 min-w-0 text-left cursor-pointer"
+                      title={station.url}
+                    >
+                      <div className="text-sm text-slate-900 truncate">{station.name}</div>
+                      <div className="text-xs text-slate-400 truncate">{station.url}</div>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditingId(station.id);
+                      setEditingName(station.name);
+                    }}
+                    className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-slate-600 hover:bg-slate-50 cursor-pointer transition-colors flex-shrink-0"
+                    title="Rename"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 8 18l1.464-4.536z" /></svg>
+                  </button>
+                  <button
+                    onClick={() => onRemoveStation(station.id)}
+                    className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50 cursor-pointer transition-colors flex-shrink-0"
+                    title="Remove"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="mt-4 text-center py-6 text-slate-400 text-sm border border-dashed border-slate-200 rounded-lg">
+            Add an Icecast or SHOUTcast stream URL, or import a playlist file.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RadioStationPicker;
@@ -0,0 +1,64 @@
+import React from "react";
+import type { SavedSession } from "../types";
+import { formatTime } from "../utils";
+import { fastForwardSnapshot } from "../sessionPersistence";
+
+// =============================================================================
+// ResumeSessionBanner — Offers to resume a session saved before a reload
+// =============================================================================
+//
+// Rendered at the top of each session page when usePomodoro found an
+// unfinished session in localStorage. Summarises where the session would be
+// now (fast-forwarded through any intervals that elapsed while the page was
+// closed) and lets the user resume or discard it.
+
+export interface ResumeSessionBannerProps {
+  session: SavedSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const ResumeSessionBanner: React.FC<ResumeSessionBannerProps> = ({
+  session,
+  onResume,
+  onDiscard,
+}) => {
+  const snapshot = fastForwardSnapshot(session.timer, Date.now());
+  const position =
+    snapshot.mode === "quick"
+      ? `Pomodoro ${Math.min(snapshot.currentPomodoro + 1, snapshot.totalPomodoros)}/${snapshot.totalPomodoros}`
+      : `Interval ${snapshot.currentIntervalIndex + 1}/${snapshot.flatIntervals.length}`;
+  const status = snapshot.isWorking
+    ? "Work"
+    : snapshot.isLongBreak
+      ? "Long break"
+      : "Break";
+
+  return (
+    <div className="w-full bg-amber-50 border border-amber-200 rounded-lg px-4 py-3 mb-6 flex items-center justify-between gap-4">
+      <div className="text-sm text-amber-900">
+        <p className="font-medium">Unfinished session</p>
+        <p className="text-amber-800">
+          {position} · {status} · {formatTime(snapshot.timeLeft)} left
+          {!snapshot.isRunning && " (paused)"}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <button
+          onClick={onDiscard}
+          className="text-amber-900 hover:bg-amber-100 text-sm font-medium px-3 py-1.5 rounded-md border border-amber-200 transition-colors cursor-pointer"
+        >
+          Discard
+        </button>
+        <button
+          onClick={onResume}
+          className="bg-slate-900 hover:bg-slate-800 text-white text-sm font-medium px-3 py-1.5 rounded-md transition-colors cursor-pointer"
+        >
+          Resume session
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeSessionBanner;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from "react";
+import type { SpotifyPlaybackContext } from "../types";
+
+// =============================================================================
+// SpotifyContextPicker — Choose what Spotify plays during work intervals
+// =============================================================================
+//
+// Shared by SpotifyQuickSession and SpotifyPlannedSession. Offers the user's
+// own playlists and a catalog search (playlists, albums, tracks); the choice
+// is saved per Spotify user by useSpotifyProvider, which starts it when a
+// work interval begins. With nothing chosen, work intervals just resume
+// whatever Spotify was playing. The same picker chooses the break music
+// when the break media is set to Spotify (see BreakMediaPanel).
+
+type PickerTab = "playlists" | "search";
+
+export interface SpotifyContextPickerProps {
+  selectedContext: SpotifyPlaybackContext | null;
+  onSelectContext: (context: SpotifyPlaybackContext | null) => void;
+  getUserPlaylists: () => Promise<SpotifyPlaybackContext[]>;
+  searchCatalog: (query: string) => Promise<SpotifyPlaybackContext[]>;
+  title?: string;
+  // Shown when nothing is chosen
+  emptyText?: string;
+}
+
+const KIND_LABELS: Record<SpotifyPlaybackContext["kind"], string> = {
+  playlist: "Playlist",
+  album: "Album",
+  track: "Track",
+};
+
+// Wait for a pause in typing before hitting the search endpoint
+const SEARCH_DEBOUNCE_MS = 400;
+
+const ContextRow: React.FC<{
+  context: SpotifyPlaybackContext;
+  selected?: boolean;
+  onClick?: () => void;
+}> = ({ context, selected = false, onClick }) => {
+  const content = (
+    <>
+      {context.imageUrl ? (
+        <img src={context.imageUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+      ) : (
+        <div className="w-10 h-10 rounded bg-slate-100 flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-slate-900 truncate">{context.name}</p>
+        {context.subtitle && (
+          <p className="text-xs text-slate-500 truncate">{context.subtitle}</p>
+        )}
+      </div>
+      <span className="px-2 py-0.5 text-xs rounded-full border text-slate-600 border-slate-300 bg-white flex-shrink-0">
+        {KIND_LABELS[context.kind]}
+      </span>
+    </>
+  );
+
+  if (!onClick) {
+    return <div className="flex items-center gap-3 flex-1 min-w-0">{content}</div>;
+  }
+  return (
+    <button
+      onClick={onClick}
+      className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left cursor-pointer transition-colors ${
+        selected ? "bg-slate-100" : "hover:bg-slate-50"
+      }`}
+      aria-pressed={selected}
+    >
+      {content}
+    </button>
+  );
+};
+
+const SpotifyContextPicker: React.FC<SpotifyContextPickerProps> = ({
+  selectedContext,
+  onSelectContext,
+  getUserPlaylists,
+  searchCatalog,
+  title = "Work music",
+  emptyText = "Nothing chosen — work intervals resume whatever Spotify was playing.",
+}) => {
+  const [tab, setTab] = useState<PickerTab>("playlists");
+  const [playlists, setPlaylists] = useState<SpotifyPlaybackContext[] | null>(null);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SpotifyPlaybackContext[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
+
+  // Load the user's playlists the first time that tab is shown
+  useEffect(() => {
+    if (tab !== "playlists" || playlists !== null) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getUserPlaylists()
+      .then((items) => { if (!cancelled) setPlaylists(items); })
+      .catch((err: Error) => { if (!cancelled) setError(`Couldn't load playlists: ${err.message}`); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [tab, playlists, getUserPlaylists]);
+
+  useEffect(() => {
+    if (tab !== "search") return;
+    const trimmed = query.trim();
+    const id = ++searchIdRef.current;
+    if (!trimmed) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      setLoading(true);
+      setError(null);
+      searchCatalog(trimmed)
+        .then((items) => { if (id === searchIdRef.current) setResults(items); })
+        .catch((err: Error) => { if (id === searchIdRef.current) setError(`Search failed: ${err.message}`); })
+        .finally(() => { if (id === searchIdRef.current) setLoading(false); });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [tab, query, searchCatalog]);
+
+  const items = tab === "playlists" ? playlists ?? [] : results;
+
+  return (
+    <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mb-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-3">{title}</h2>
+
+      {/* Current choice */}
+      <div className="flex items-center gap-3 p-3 mb-4 rounded-md border border-slate-200 bg-slate-50">
+        {selectedContext ? (
+          <>
+            <ContextRow context={selectedContext} />
+            <button
+              onClick={() => onSelectContext(null)}
+              className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50 cursor-pointer transition-colors flex-shrink-0"
+              title="Clear choice"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </>
+        ) : (
+          <p className="text-sm text-slate-500">{emptyText}</p>
+        )}
+      </div>
+
+      {/* Source tabs */}
+      <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white mb-3">
+        {(["playlists", "search"] as const).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-3 py-1.5 text-sm rounded-[6px] transition-colors cursor-pointer ${
+              tab === t ? "bg-slate-900 text-white" : "text-slate-600 hover:text-slate-900"
+            }`}
+          >
+            {t === "playlists" ? "My playlists" : "Search"}
+          </button>
+        ))}
+      </div>
+
+      {tab === "search" && (
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search playlists, albums and tracks"
+          className="w-full px-3.5 py-2.5 mb-3 bg-white border border-slate-300 rounded-md text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+        />
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {loading && items.length === 0 ? (
+        <p className="text-sm text-slate-400">Loading…</p>
+      ) : items.length > 0 ? (
+        <div className="space-y-1 max-h-72 overflow-y-auto">
+          {items.map((item) => (
+            <ContextRow
+              key={item.uri}
+              context={item}
+              selected={item.uri === selectedContext?.uri}
+              onClick={() => onSelectContext(item)}
+            />
+          ))}
+        </div>
+      ) : (
+        !error && (
+          <p className="text-sm text-slate-400">
+            {tab === "playlists"
+              ? "You don't have any playlists yet."
+              : query.trim() ? "No results." : "Type to search Spotify."}
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default SpotifyContextPicker;
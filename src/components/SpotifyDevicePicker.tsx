@@ -0,0 +1,117 @@
+import React from "react";
+import type { SpotifyBrowserPlayerStatus, SpotifyDevice } from "../types";
+
+// =============================================================================
+// SpotifyDevicePicker — Choose which Spotify Connect device plays
+// =============================================================================
+//
+// Shared by SpotifyQuickSession and SpotifyPlannedSession. Lists the user's
+// devices from /me/player/devices; the choice is remembered by
+// useSpotifyProvider, which transfers playback to it before each work
+// interval. The default entry is this browser (the Web Playback SDK device)
+// when it's enabled and ready, otherwise whatever Spotify client is
+// currently playing.
+
+export interface SpotifyDevicePickerProps {
+  devices: SpotifyDevice[];
+  selectedDeviceId: string | null;
+  activeDeviceId: string | null;
+  onSelectDevice: (id: string | null) => void;
+  onRefresh: () => void;
+  browserDeviceId: string | null;
+  browserPlayerEnabled: boolean;
+  browserPlayerStatus: SpotifyBrowserPlayerStatus;
+  onToggleBrowserPlayer: (enabled: boolean) => void;
+}
+
+const BROWSER_STATUS_TEXT: Record<SpotifyBrowserPlayerStatus, string> = {
+  off: "",
+  connecting: "Connecting…",
+  ready: "Ready",
+  unavailable: "Unavailable here — needs Spotify Premium and a supported browser",
+};
+
+const SpotifyDevicePicker: React.FC<SpotifyDevicePickerProps> = ({
+  devices,
+  selectedDeviceId,
+  activeDeviceId,
+  onSelectDevice,
+  onRefresh,
+  browserDeviceId,
+  browserPlayerEnabled,
+  browserPlayerStatus,
+  onToggleBrowserPlayer,
+}) => {
+  // Restricted devices (and ones without an id) can't be targeted. This
+  // page's own device is the default entry, so it isn't listed again.
+  const selectable = devices.filter(
+    (d) => d.id && !d.is_restricted && d.id !== browserDeviceId,
+  );
+  // A remembered device that's currently offline stays listed so the
+  // choice isn't silently lost
+  const selectedMissing =
+    selectedDeviceId !== null && !selectable.some((d) => d.id === selectedDeviceId);
+
+  return (
+    <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mb-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-slate-900">Playback device</h2>
+        <button
+          onClick={onRefresh}
+          className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-slate-600 hover:bg-slate-50 cursor-pointer transition-colors"
+          title="Refresh device list"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+        </button>
+      </div>
+
+      <select
+        value={selectedDeviceId ?? ""}
+        onChange={(e) => onSelectDevice(e.target.value || null)}
+        className="w-full px-3.5 py-2.5 bg-white border border-slate-300 rounded-md text-slate-900 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+      >
+        <option value="">
+          {browserDeviceId
+            ? "This browser"
+            : "Active device (whatever Spotify is playing on)"}
+        </option>
+        {selectable.map((d) => (
+          <option key={d.id} value={d.id!}>
+            {d.name} · {d.type}
+            {d.id === activeDeviceId ? " (active)" : ""}
+          </option>
+        ))}
+        {selectedMissing && (
+          <option value={selectedDeviceId}>Saved device (offline)</option>
+        )}
+      </select>
+
+      <p className="text-xs text-slate-400 mt-2">
+        {selectable.length === 0 && !browserDeviceId
+          ? "No devices found — open Spotify on your phone, computer or speaker, then refresh."
+          : "Playback moves to the chosen device when a work interval starts."}
+      </p>
+
+      {/* In-browser playback */}
+      <label className="flex items-center gap-2 mt-3 text-sm text-slate-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={browserPlayerEnabled}
+          onChange={(e) => onToggleBrowserPlayer(e.target.checked)}
+        />
+        Play in this browser
+        {browserPlayerEnabled && browserPlayerStatus !== "off" && (
+          <span
+            className={`text-xs ${
+              browserPlayerStatus === "unavailable" ? "text-amber-600" : "text-slate-400"
+            }`}
+          >
+            · {BROWSER_STATUS_TEXT[browserPlayerStatus]}
+          </span>
+        )}
+      </label>
+    </div>
+  );
+};
+
+export default SpotifyDevicePicker;
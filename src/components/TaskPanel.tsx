@@ -0,0 +1,156 @@
+import React, { useState } from "react";
+import { useTasks, MAX_ESTIMATE } from "../hooks/useTasks";
+
+// =============================================================================
+// TaskPanel — Task list with pomodoro estimates, under the timer
+// =============================================================================
+//
+// Rendered next to TimerDisplay on every session page. Users add tasks with
+// an estimated number of pomodoros and pick the active one; each work
+// interval the timer completes is credited to it (usePomodoro calls
+// creditActiveTask). The list is shared by all sources and persisted.
+
+const TaskPanel: React.FC = () => {
+  const {
+    tasks,
+    activeTaskId,
+    addTask,
+    setEstimate,
+    setActiveTask,
+    toggleDone,
+    removeTask,
+    clearDoneTasks,
+  } = useTasks();
+  const [title, setTitle] = useState("");
+  const [estimate, setEstimateInput] = useState(1);
+
+  const handleAdd = () => {
+    if (!title.trim()) return;
+    addTask(title, estimate);
+    setTitle("");
+    setEstimateInput(1);
+  };
+
+  const activeTask = tasks.find((t) => t.id === activeTaskId);
+  const hasDone = tasks.some((t) => t.done);
+
+  return (
+    <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-slate-900">Tasks</h2>
+        {hasDone && (
+          <button
+            onClick={clearDoneTasks}
+            className="text-xs text-slate-500 hover:text-slate-700 transition-colors cursor-pointer"
+          >
+            Clear done
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500 mb-3">
+        {activeTask
+          ? <>Completed work intervals count toward <span className="font-medium text-slate-700">{activeTask.title}</span>.</>
+          : "Pick an active task to credit completed work intervals to it."}
+      </p>
+
+      {/* Task list */}
+      {tasks.length > 0 && (
+        <div className="space-y-1 mb-3 max-h-72 overflow-y-auto">
+          {tasks.map((task) => {
+            const active = task.id === activeTaskId;
+            const over = task.completedPomodoros > task.estimatedPomodoros;
+            return (
+              <div
+                key={task.id}
+                className={`flex items-center gap-3 px-3 py-2 rounded-md ${
+                  active ? "bg-slate-100" : "hover:bg-slate-50"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={task.done}
+                  onChange={() => toggleDone(task.id)}
+                  title={task.done ? "Mark as not done" : "Mark as done"}
+                  className="flex-shrink-0"
+                />
+                <button
+                  onClick={() => setActiveTask(task.id)}
+                  className={`flex-1 min-w-0 text-left text-sm truncate cursor-pointer ${
+                    task.done ? "text-slate-400 line-through" : "text-slate-900"
+                  }`}
+                  title={active ? "Active task — click to unset" : "Make this the active task"}
+                  aria-pressed={active}
+                >
+                  {task.title}
+                </button>
+                {active && (
+                  <span className="px-2 py-0.5 text-xs rounded-full border text-slate-700 border-slate-300 bg-white flex-shrink-0">
+                    Active
+                  </span>
+                )}
+                <div
+                  className="flex items-center gap-1 flex-shrink-0"
+                  title="Pomodoros completed / estimated"
+                >
+                  <span className={`text-sm font-mono ${over ? "text-amber-600" : "text-slate-500"}`}>
+                    {task.completedPomodoros}/
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_ESTIMATE}
+                    value={task.estimatedPomodoros}
+                    onChange={(e) => setEstimate(task.id, parseInt(e.target.value, 10))}
+                    className="w-14 px-1.5 py-0.5 text-sm font-mono bg-white border border-slate-200 rounded text-slate-700 outline-none focus:ring-2 focus:ring-slate-900/10"
+                    aria-label="Estimated pomodoros"
+                  />
+                </div>
+                <button
+                  onClick={() => removeTask(task.id)}
+                  className="w-7 h-7 flex items-center justify-center rounded text-slate-400 hover:text-red-600 hover:bg-red-50 cursor-pointer transition-colors flex-shrink-0"
+                  title="Remove"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add task */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+          }}
+          placeholder="What are you working on?"
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-white border border-slate-300 rounded-md text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+        />
+        <input
+          type="number"
+          min={1}
+          max={MAX_ESTIMATE}
+          value={estimate}
+          onChange={(e) => setEstimateInput(parseInt(e.target.value, 10) || 1)}
+          className="w-16 px-2 py-1.5 text-sm bg-white border border-slate-300 rounded-md text-slate-900 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+          title="Estimated pomodoros"
+          aria-label="Estimated pomodoros"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!title.trim()}
+          className="px-3 py-1.5 text-sm rounded-md border border-slate-300 text-slate-700 hover:bg-slate-50 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Add task
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskPanel;
@@ -21,6 +21,8 @@ export interface TimerDisplayProps {
   timeLeft: number;
   isRunning: boolean;
   isWorking: boolean;
+  // Labels the break as "Long break" (quick mode only)
+  isLongBreak?: boolean;
   timerComplete: boolean;
   progress: number;
   // Quick mode counter info
@@ -45,12 +47,15 @@ export interface TimerDisplayProps {
   completeText?: string;
   // Accent color classes (defaults to slate)
   accentProgressClass?: string; // e.g. "bg-red-500" for the progress bar fill
+  // Another tab owns the timer; this one is a remote control for it
+  isRemote?: boolean;
 }
 
 const TimerDisplay: React.FC<TimerDisplayProps> = ({
   timeLeft,
   isRunning,
   isWorking,
+  isLongBreak = false,
   timerComplete,
   progress,
   currentPomodoro,
@@ -68,6 +73,7 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({
   onCancelSession,
   completeText = "Session Complete!",
   accentProgressClass = "bg-slate-900",
+  isRemote = false,
 }) => {
   return (
     <div className="w-full mb-8">
@@ -99,7 +105,7 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({
                     : "text-green-700 border-green-200 bg-green-50"
                 }`}
               >
-                {isWorking ? "Work" : "Break"}
+                {isWorking ? "Work" : isLongBreak ? "Long break" : "Break"}
               </span>
               {plannedMode && intervalDurationMinutes !== undefined && (
                 <span className="text-xs text-slate-500">
@@ -193,6 +199,12 @@ const TimerDisplay: React.FC<TimerDisplayProps> = ({
             </svg>
           </button>
         </div>
+
+        {isRemote && (
+          <div className="px-5 py-2 border-t border-slate-200 bg-slate-50 text-xs text-slate-500 text-center">
+            Remote control — the timer is running in another tab
+          </div>
+        )}
       </div>
     </div>
   );
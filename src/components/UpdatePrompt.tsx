@@ -0,0 +1,45 @@
+import React from "react";
+import { useServiceWorker } from "../hooks/useServiceWorker";
+
+// =============================================================================
+// UpdatePrompt — "New version available" toast
+// =============================================================================
+//
+// Rendered once at the app root. Stays hidden until the service worker has
+// installed a newer build in the background, then offers to reload onto it.
+// "Later" hides the toast for this page load; the waiting build activates by
+// itself once every tab of the app has been closed.
+
+const UpdatePrompt: React.FC = () => {
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorker();
+
+  if (!updateAvailable) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md bg-white border border-slate-200 rounded-lg shadow-lg px-4 py-3 flex items-center justify-between gap-4"
+    >
+      <div className="text-sm text-slate-700">
+        <p className="font-medium text-slate-900">Update available</p>
+        <p>Reload to get the latest version.</p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <button
+          onClick={dismissUpdate}
+          className="text-slate-700 hover:bg-slate-50 text-sm font-medium px-3 py-1.5 rounded-md border border-slate-300 transition-colors cursor-pointer"
+        >
+          Later
+        </button>
+        <button
+          onClick={applyUpdate}
+          className="bg-slate-900 hover:bg-slate-800 text-white text-sm font-medium px-3 py-1.5 rounded-md transition-colors cursor-pointer"
+        >
+          Reload
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
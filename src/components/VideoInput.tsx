@@ -1,10 +1,13 @@
 import React, { useState, type ChangeEvent } from "react";
 import type { VideoHistoryItem } from "../types";
-import { extractVideoId } from "../utils";
+import { extractVideoId, extractPlaylistId } from "../utils";
 
 interface VideoInputProps {
   videoHistory: VideoHistoryItem[];
   onSubmit: (videoId: string, url: string) => void;
+  // Called for youtube.com/playlist?list=... URLs. Without it, playlist URLs
+  // are rejected like any other invalid URL.
+  onSubmitPlaylist?: (playlistId: string, url: string) => void;
   onRemoveFromHistory: (id: string) => void;
   onClearHistory: () => void;
   onLoadFromHistory: (item: VideoHistoryItem) => void;
@@ -22,6 +25,7 @@ interface VideoInputProps {
 const VideoInput: React.FC<VideoInputProps> = ({
   videoHistory,
   onSubmit,
+  onSubmitPlaylist,
   onRemoveFromHistory,
   onClearHistory,
   onLoadFromHistory,
@@ -34,9 +38,13 @@ const VideoInput: React.FC<VideoInputProps> = ({
 
   const handleUrlSubmit = () => {
     const id = extractVideoId(videoUrl);
+    const playlistId = onSubmitPlaylist ? extractPlaylistId(videoUrl) : null;
     if (id) {
       onSubmit(id, videoUrl);
       if (clearOnSubmit) setVideoUrl("");
+    } else if (playlistId) {
+      onSubmitPlaylist?.(playlistId, videoUrl);
+      if (clearOnSubmit) setVideoUrl("");
     } else {
       alert("Invalid YouTube URL. Please enter a valid URL.");
     }
@@ -0,0 +1,46 @@
+import React from "react";
+import { formatTimestamp } from "../utils";
+
+// =============================================================================
+// VideoResumePrompt — Offers to continue a video from where it was left
+// =============================================================================
+//
+// Shown by the YouTube session pages when the loaded video has a saved
+// position in the video history (see useVideoPositionTracking).
+
+export interface VideoResumePromptProps {
+  title?: string;
+  position: number; // seconds
+  onResume: () => void;
+  onDismiss: () => void;
+}
+
+const VideoResumePrompt: React.FC<VideoResumePromptProps> = ({
+  title,
+  position,
+  onResume,
+  onDismiss,
+}) => (
+  <div className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-3 mb-6 flex items-center justify-between gap-4">
+    <p className="text-sm text-slate-700 min-w-0">
+      You left {title ? <span className="font-medium">{title}</span> : "this video"} at{" "}
+      <span className="font-mono">{formatTimestamp(position)}</span>.
+    </p>
+    <div className="flex items-center gap-2 flex-shrink-0">
+      <button
+        onClick={onDismiss}
+        className="text-slate-700 hover:bg-slate-100 text-sm font-medium px-3 py-1.5 rounded-md border border-slate-200 transition-colors cursor-pointer"
+      >
+        Start over
+      </button>
+      <button
+        onClick={onResume}
+        className="bg-slate-900 hover:bg-slate-800 text-white text-sm font-medium px-3 py-1.5 rounded-md transition-colors cursor-pointer"
+      >
+        Resume
+      </button>
+    </div>
+  </div>
+);
+
+export default VideoResumePrompt;
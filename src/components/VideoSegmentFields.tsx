@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from "react";
+import type { VideoSegment } from "../types";
+import { parseTimestamp, formatTimestamp } from "../utils";
+
+// =============================================================================
+// VideoSegmentFields — Optional start/end points for a YouTube video
+// =============================================================================
+//
+// Used for the quick session's video and for each entry of the planned
+// session's queue. Timestamps are typed like YouTube shows them ("1:02:03",
+// "45:00") or in URL form ("1h2m3s"); an empty field means the video's own
+// start or end. The player loops just this segment.
+
+interface VideoSegmentFieldsProps {
+  segment: VideoSegment;
+  onChange: (segment: VideoSegment) => void;
+}
+
+// A text field that only reports a value once it parses, and snaps back to
+// the last good value otherwise
+const TimestampInput: React.FC<{
+  value: number | undefined;
+  placeholder: string;
+  label: string;
+  onCommit: (value: number | undefined) => boolean;
+}> = ({ value, placeholder, label, onCommit }) => {
+  const formatted = value !== undefined ? formatTimestamp(value) : "";
+  const [text, setText] = useState(formatted);
+
+  useEffect(() => { setText(formatted); }, [formatted]);
+
+  const commit = () => {
+    const trimmed = text.trim();
+    const seconds = trimmed ? parseTimestamp(trimmed) : undefined;
+    if (seconds === null || !onCommit(seconds)) setText(formatted);
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      placeholder={placeholder}
+      aria-label={label}
+      title={label}
+      className="w-20 px-2 py-1 text-sm font-mono bg-white border border-slate-200 rounded text-slate-700 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-slate-900/10 focus:border-slate-400"
+    />
+  );
+};
+
+const VideoSegmentFields: React.FC<VideoSegmentFieldsProps> = ({ segment, onChange }) => {
+  const { startSeconds, endSeconds } = segment;
+
+  // The end has to come after the start
+  const commitStart = (value: number | undefined) => {
+    if (value !== undefined && endSeconds !== undefined && value >= endSeconds) return false;
+    onChange({ startSeconds: value || undefined, endSeconds });
+    return true;
+  };
+
+  const commitEnd = (value: number | undefined) => {
+    if (value !== undefined && value <= (startSeconds ?? 0)) return false;
+    onChange({ startSeconds, endSeconds: value });
+    return true;
+  };
+
+  return (
+    <div className="flex items-center gap-1.5 text-xs text-slate-500">
+      <span>Play from</span>
+      <TimestampInput
+        value={startSeconds}
+        placeholder="0:00"
+        label="Start time"
+        onCommit={commitStart}
+      />
+      <span>to</span>
+      <TimestampInput
+        value={endSeconds}
+        placeholder="end"
+        label="End time"
+        onCommit={commitEnd}
+      />
+    </div>
+  );
+};
+
+export default VideoSegmentFields;
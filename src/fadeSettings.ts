@@ -0,0 +1,76 @@
+import type { FadeSettings } from "./types";
+
+// =============================================================================
+// Volume fades — fade settings and the fade curve
+// =============================================================================
+//
+// Work media can fade in at the start of each work interval and out over
+// its last seconds instead of cutting in and out. usePomodoro applies the
+// level to providers that implement MediaProvider.setVolume; the YouTube
+// planned page, which drives its own player, applies it there.
+//
+// The fade lengths live in localStorage under one key and are off (0) until
+// the user sets them. saveFadeSettings() notifies subscribers in this tab,
+// so a running timer picks up a change from the settings panel straight
+// away; other tabs hear about it through the storage event.
+
+const STORAGE_KEY = "pomodoro-fade-settings";
+
+export const DEFAULT_FADE_SETTINGS: FadeSettings = {
+  fadeInSeconds: 0,
+  fadeOutSeconds: 0,
+};
+
+// Longest fade the settings panel offers
+export const MAX_FADE_SECONDS = 30;
+
+export function loadFadeSettings(): FadeSettings {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_FADE_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved) as Partial<FadeSettings>;
+    return { ...DEFAULT_FADE_SETTINGS, ...parsed };
+  } catch (error) {
+    console.error("Failed to parse fade settings:", error);
+    return DEFAULT_FADE_SETTINGS;
+  }
+}
+
+// --- Change notification ---
+
+const listeners = new Set<(settings: FadeSettings) => void>();
+
+export function saveFadeSettings(settings: FadeSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener(settings));
+}
+
+// Calls `listener` with the new settings whenever they change, in this tab
+// or another. Returns the unsubscribe function.
+export function subscribeFadeSettings(
+  listener: (settings: FadeSettings) => void,
+): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener(loadFadeSettings());
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+// --- Fade curve ---
+
+// Work media volume at a point in a work interval: ramps up over the first
+// fadeInSeconds and down over the last fadeOutSeconds
+export function fadeLevel(
+  elapsed: number,
+  remaining: number,
+  { fadeInSeconds, fadeOutSeconds }: FadeSettings,
+): number {
+  const up = fadeInSeconds > 0 ? elapsed / fadeInSeconds : 1;
+  const down = fadeOutSeconds > 0 ? remaining / fadeOutSeconds : 1;
+  return Math.max(0, Math.min(1, up, down));
+}
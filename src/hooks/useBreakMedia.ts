@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type {
+  BreakMediaKind,
+  BreakMediaSettings,
+  MediaProvider,
+  MediaSource,
+} from "../types";
+import { useChimeLoopProvider } from "../providers/useChimeLoopProvider";
+import { useYouTubeBreakProvider } from "../providers/useYouTubeBreakProvider";
+
+// =============================================================================
+// useBreakMedia — What plays during breaks, per source
+// =============================================================================
+//
+// Every session page calls this and hands the resulting provider to
+// usePomodoro as its breakProvider. The choice is made per source (the
+// Spotify pages can offer a break playlist, the others can't) and persisted
+// in localStorage under a single key, so it's shared by the source's quick
+// and planned pages.
+//
+// The Spotify pages pass in useSpotifyProvider's breakProvider, since break
+// playback has to go through the same Spotify player as the work music.
+
+const STORAGE_KEY = "pomodoro-break-media";
+
+const DEFAULT_SETTINGS: BreakMediaSettings = { kind: "silence" };
+
+type StoredBreakMedia = Partial<Record<MediaSource, BreakMediaSettings>>;
+
+function loadAll(): StoredBreakMedia {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+  try {
+    const parsed = JSON.parse(saved);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch (error) {
+    console.error("Failed to parse break media settings:", error);
+    return {};
+  }
+}
+
+function loadSettings(source: MediaSource): BreakMediaSettings {
+  return { ...DEFAULT_SETTINGS, ...loadAll()[source] };
+}
+
+export function useBreakMedia(source: MediaSource, spotifyBreakProvider?: MediaProvider) {
+  const [settings, setSettings] = useState<BreakMediaSettings>(() => loadSettings(source));
+
+  // Persist on every change, leaving the other sources' choices alone
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAll(), [source]: settings }));
+  }, [source, settings]);
+
+  const kinds: BreakMediaKind[] = spotifyBreakProvider
+    ? ["silence", "chime", "youtube", "spotify"]
+    : ["silence", "chime", "youtube"];
+
+  const chimeProvider = useChimeLoopProvider();
+  const youtubeProvider = useYouTubeBreakProvider(
+    settings.kind === "youtube" ? settings.youtubeVideoId ?? null : null,
+  );
+
+  let provider: MediaProvider | null = null;
+  if (settings.kind === "chime") provider = chimeProvider;
+  else if (settings.kind === "youtube") provider = youtubeProvider;
+  else if (settings.kind === "spotify") provider = spotifyBreakProvider ?? null;
+
+  // Switching kinds mid-break stops the old media; usePomodoro then starts
+  // the new one, since its breakProvider changed
+  const previousRef = useRef<MediaProvider | null>(null);
+  useEffect(() => {
+    if (previousRef.current && previousRef.current !== provider) {
+      previousRef.current.pause();
+    }
+    previousRef.current = provider;
+  }, [provider]);
+
+  const setKind = useCallback((kind: BreakMediaKind) => {
+    setSettings((prev) => ({ ...prev, kind }));
+  }, []);
+
+  const setYouTubeVideo = useCallback((videoId: string | null, title?: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      youtubeVideoId: videoId ?? undefined,
+      youtubeTitle: videoId ? title : undefined,
+    }));
+  }, []);
+
+  return { settings, kinds, provider, setKind, setYouTubeVideo };
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from "react";
+import type { FadeSettings } from "../types";
+import { loadFadeSettings, saveFadeSettings, subscribeFadeSettings } from "../fadeSettings";
+
+// =============================================================================
+// useFadeSettings — The volume fade lengths as React state
+// =============================================================================
+//
+// Mirrors the persisted fade settings (see fadeSettings.ts) into state, so
+// the timer reads them without touching storage on every tick. Updates are
+// written straight to storage and come back through the subscription, which
+// keeps the settings panel and every running timer in step.
+
+export function useFadeSettings() {
+  const [settings, setSettings] = useState<FadeSettings>(loadFadeSettings);
+
+  useEffect(() => subscribeFadeSettings(setSettings), []);
+
+  const updateSettings = useCallback((patch: Partial<FadeSettings>) => {
+    saveFadeSettings({ ...loadFadeSettings(), ...patch });
+  }, []);
+
+  return { settings, updateSettings };
+}
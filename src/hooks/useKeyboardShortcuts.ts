@@ -0,0 +1,75 @@
+import { useEffect, useRef } from "react";
+import type { KeyboardShortcut } from "../types";
+import type { PomodoroState } from "./usePomodoro";
+
+// =============================================================================
+// useKeyboardShortcuts — Global key bindings for a session page
+// =============================================================================
+//
+// Listens for keydown on the window and runs the matching shortcut's action.
+// Keystrokes are ignored while the user is typing — in any text or number
+// input (VideoInput, the settings fields, the interval builder), textarea,
+// select or contenteditable — and when Ctrl/Cmd/Alt is held, so browser and
+// OS shortcuts keep working.
+//
+// The shortcut list may change every render; the listener reads it through
+// a ref so it's only attached once.
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+  if (target instanceof HTMLInputElement) {
+    // Checkboxes, radios, ranges and buttons don't take typed text
+    return !["checkbox", "radio", "range", "button", "submit", "reset"].includes(target.type);
+  }
+  return false;
+}
+
+export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[]): void {
+  const shortcutsRef = useRef(shortcuts);
+  useEffect(() => { shortcutsRef.current = shortcuts; }, [shortcuts]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      if (isTypingTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      const shortcut = shortcutsRef.current.find((s) =>
+        s.keys.some((k) => k.toLowerCase() === key),
+      );
+      if (!shortcut) return;
+      // Stops Space scrolling the page, and a focused button also
+      // "clicking" on Space/Enter on top of the shortcut's own action.
+      e.preventDefault();
+      shortcut.action();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
+
+// The timer controls every page shares: Space / S / R.
+export function timerShortcuts(
+  pom: Pick<PomodoroState, "toggleTimer" | "skipSession" | "resetTimer">,
+): KeyboardShortcut[] {
+  return [
+    { keys: [" "], label: "Space", description: "Start / pause the timer", action: pom.toggleTimer },
+    { keys: ["s"], label: "S", description: "Skip to the next interval", action: pom.skipSession },
+    { keys: ["r"], label: "R", description: "Reset the timer", action: pom.resetTimer },
+  ];
+}
+
+// Planned pages add Esc to cancel the running session.
+export function plannedSessionShortcuts(
+  pom: Pick<PomodoroState, "toggleTimer" | "skipSession" | "resetTimer">,
+  onCancel: () => void,
+): KeyboardShortcut[] {
+  return [
+    ...timerShortcuts(pom),
+    { keys: ["Escape"], label: "Esc", description: "Cancel the session", action: onCancel },
+  ];
+}
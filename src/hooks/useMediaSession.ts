@@ -0,0 +1,102 @@
+import { useEffect, useRef } from "react";
+import type { PomodoroState } from "./usePomodoro";
+import { formatTime } from "../utils";
+
+// =============================================================================
+// useMediaSession — OS media controls and hardware keys drive the timer
+// =============================================================================
+//
+// Registers navigator.mediaSession metadata and action handlers for a session
+// page. The OS "now playing" widget shows what's playing (video title, track,
+// station...) with the timer position underneath, e.g. "Work 2/4 – 12:34
+// left". Play / pause / next-track from media keys, headsets or the lock
+// screen go to toggleTimer and skipSession, so they start, pause or skip the
+// pomodoro — and the media follows the timer as usual — instead of only
+// pausing the underlying player behind the timer's back.
+//
+// Browsers only surface a page's media session while it is playing audio
+// itself. That holds for the <audio>-based sources and Web Audio; for the
+// YouTube and Spotify Web API sources it depends on the browser.
+
+export interface MediaSessionInfo {
+  title: string; // what's playing: video title, track name, station...
+  subtitle?: string; // e.g. the artist, or the source name
+  artwork?: string; // image URL
+}
+
+// "Work 2/4 – 12:34 left", "Break – 04:10 left", "Paused · Work 2/4 – ..."
+export function timerStatusLine(pom: PomodoroState): string {
+  if (pom.timerComplete) return "Session complete";
+
+  let phase: string;
+  if (pom.flatIntervals.length > 0) {
+    const works = pom.flatIntervals.filter((i) => i.type === "work").length;
+    const worksSoFar = pom.flatIntervals
+      .slice(0, pom.currentIntervalIndex + 1)
+      .filter((i) => i.type === "work").length;
+    phase = pom.isWorking ? `Work ${worksSoFar}/${works}` : "Break";
+  } else {
+    phase = pom.isWorking
+      ? `Work ${pom.currentPomodoro + 1}/${pom.totalPomodoros}`
+      : pom.isLongBreak ? "Long break" : "Break";
+  }
+
+  const line = `${phase} – ${formatTime(pom.timeLeft)} left`;
+  return pom.isRunning ? line : `Paused · ${line}`;
+}
+
+const isSupported = (): boolean =>
+  typeof navigator !== "undefined" && "mediaSession" in navigator;
+
+export function useMediaSession(pom: PomodoroState, media: MediaSessionInfo | null): void {
+  const status = timerStatusLine(pom);
+
+  // Handlers are registered once and read the latest state through a ref
+  const pomRef = useRef(pom);
+  useEffect(() => { pomRef.current = pom; }, [pom]);
+
+  const title = media?.title;
+  const subtitle = media?.subtitle;
+  const artwork = media?.artwork;
+
+  useEffect(() => {
+    if (!isSupported() || typeof MediaMetadata === "undefined") return;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: title || "Pomodoro Player",
+      artist: status,
+      album: subtitle ?? "",
+      artwork: artwork ? [{ src: artwork }] : [],
+    });
+  }, [title, subtitle, artwork, status]);
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    navigator.mediaSession.playbackState = pom.isRunning ? "playing" : "paused";
+  }, [pom.isRunning]);
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ["play", () => { if (!pomRef.current.isRunning) pomRef.current.toggleTimer(); }],
+      ["pause", () => { if (pomRef.current.isRunning) pomRef.current.toggleTimer(); }],
+      ["nexttrack", () => pomRef.current.skipSession()],
+    ];
+    for (const [action, handler] of handlers) {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Older browsers throw for actions they don't know
+      }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // See above
+        }
+      }
+      navigator.mediaSession.metadata = null;
+    };
+  }, []);
+}
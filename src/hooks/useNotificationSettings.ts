@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from "react";
+import type { NotificationSettings } from "../types";
+import {
+  loadNotificationSettings,
+  saveNotificationSettings,
+  requestNotificationPermission,
+} from "../notifications";
+
+// Manages the user's transition-alert preferences, persisted in localStorage.
+// The timer reads the same key at notification time (see notifyTransition),
+// so changes take effect on the next transition without any wiring.
+//
+// Turning desktop notifications on asks for permission first; if the user
+// declines, the toggle stays off.
+export function useNotificationSettings() {
+  const [settings, setSettings] = useState<NotificationSettings>(
+    loadNotificationSettings,
+  );
+
+  useEffect(() => {
+    saveNotificationSettings(settings);
+  }, [settings]);
+
+  const updateSettings = useCallback((patch: Partial<NotificationSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const setDesktopEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) return;
+    setSettings((prev) => ({ ...prev, desktop: enabled }));
+  }, []);
+
+  return { settings, updateSettings, setDesktopEnabled };
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from "react";
+import type { IntervalBlock, PlanTemplate } from "../types";
+import { generateId } from "../utils";
+
+// =============================================================================
+// usePlanTemplates — Named library of saved interval plans
+// =============================================================================
+//
+// Templates are persisted in localStorage under a single key, so the same
+// library shows up on every source's planned page (and stays in step across
+// tabs via the storage event). Templates store blocks without ids; loading
+// one hands back fresh IntervalBlocks ready for the builder.
+//
+// On first use the library is seeded with the presets the builder used to
+// offer as a fixed row, so nobody loses them.
+
+const STORAGE_KEY = "pomodoro-plan-templates";
+
+const DEFAULT_TEMPLATES: Omit<PlanTemplate, "id" | "createdAt">[] = [
+  { name: "Classic 25/5 ×4", blocks: [{ workMinutes: 25, breakMinutes: 5, repeat: 4 }] },
+  { name: "Deep work 45/15 ×2", blocks: [{ workMinutes: 45, breakMinutes: 15, repeat: 2 }] },
+  { name: "Long haul 60/30 ×2", blocks: [{ workMinutes: 60, breakMinutes: 30, repeat: 2 }] },
+];
+
+function loadTemplates(): PlanTemplate[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === null) {
+    const now = Date.now();
+    return DEFAULT_TEMPLATES.map((t) => ({ ...t, id: generateId(), createdAt: now }));
+  }
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to parse plan templates:", error);
+    return [];
+  }
+}
+
+const stripIds = (blocks: IntervalBlock[]): PlanTemplate["blocks"] =>
+  blocks.map(({ workMinutes, breakMinutes, repeat }) => ({ workMinutes, breakMinutes, repeat }));
+
+export function usePlanTemplates() {
+  const [templates, setTemplates] = useState<PlanTemplate[]>(loadTemplates);
+
+  // Persist on every change
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  }, [templates]);
+
+  // Pick up edits made in another tab
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setTemplates(loadTemplates());
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const saveTemplate = useCallback((name: string, blocks: IntervalBlock[]) => {
+    const template: PlanTemplate = {
+      id: generateId(),
+      name: name.trim() || "Untitled plan",
+      blocks: stripIds(blocks),
+      createdAt: Date.now(),
+    };
+    setTemplates((prev) => [...prev, template]);
+  }, []);
+
+  const renameTemplate = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setTemplates((prev) => prev.map((t) => (t.id === id ? { ...t, name: trimmed } : t)));
+  }, []);
+
+  // Inserts the copy right after the original
+  const duplicateTemplate = useCallback((id: string) => {
+    setTemplates((prev) => {
+      const index = prev.findIndex((t) => t.id === id);
+      if (index === -1) return prev;
+      const copy: PlanTemplate = {
+        ...prev[index],
+        id: generateId(),
+        name: `${prev[index].name} (copy)`,
+        createdAt: Date.now(),
+      };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }, []);
+
+  const deleteTemplate = useCallback((id: string) => {
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // Fresh blocks (with new ids) for the interval builder
+  const templateBlocks = useCallback(
+    (template: PlanTemplate): IntervalBlock[] =>
+      template.blocks.map((b) => ({ ...b, id: generateId() })),
+    [],
+  );
+
+  return {
+    templates,
+    saveTemplate,
+    renameTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    templateBlocks,
+  };
+}
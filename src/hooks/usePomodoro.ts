@@ -1,27 +1,73 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { MediaProvider, FlatInterval } from "../types";
+import type {
+  MediaProvider,
+  MediaSource,
+  FlatInterval,
+  SavedSession,
+  SessionExtras,
+  SyncedTimerState,
+  TimerAction,
+  TimerCommand,
+  TimerEffect,
+  TimerSettingKey,
+  TimerState,
+} from "../types";
 import { formatTime } from "../utils";
+import {
+  loadResumableSession,
+  saveSession,
+  clearSession,
+  fastForwardSnapshot,
+} from "../sessionPersistence";
+import { useTabSync } from "./useTabSync";
+import { useFadeSettings } from "./useFadeSettings";
+import { notifyTransition } from "../notifications";
+import { fadeLevel } from "../fadeSettings";
+import { logInterval } from "../sessionHistory";
+import { creditActiveTask } from "../tasks";
+import { createTimerScheduler, type TimerScheduler } from "../timerScheduler";
+import {
+  createTimerState,
+  stepTimer,
+  systemClock,
+  isCounting,
+  intervalSeconds,
+  toSyncedState,
+} from "../timerMachine";
 
 // =============================================================================
 // usePomodoro — The shared pomodoro timer engine
 // =============================================================================
 //
-// This hook encapsulates ALL timer logic used by every session page (YouTube,
-// Spotify, NTS — both Quick and Planned modes). The timer is timestamp-based:
-// on start/resume it records endTime = now + remaining, and each tick computes
-// remaining = endTime - now. This is immune to setInterval drift and browser
-// throttling of background tabs. A visibility change handler recalculates
-// timeLeft when the user returns to the tab.
+// This hook is the timer used by every session page (YouTube, Spotify, NTS —
+// both Quick and Planned modes). The transition rules themselves live in the
+// pure timer machine (timerMachine.ts); the hook holds its state, dispatches
+// actions to it and carries out the effects it asks for (history logging,
+// notifications), and wires it to React, the media provider, persistence
+// and other tabs.
+//
+// The timer is timestamp-based: on start/resume it records endTime = now +
+// remaining, and each tick computes remaining = endTime - now. This is
+// immune to timer drift. The wake-ups themselves (a tick every second, and
+// one at endTime) come from a dedicated worker (see timerScheduler.ts), so
+// transitions fire on time even in a throttled background tab; the hook just
+// reacts to them. A visibility change handler recalculates timeLeft when the
+// user returns to the tab.
 //
 // The hook accepts a MediaProvider and calls provider.play() during work
 // intervals and provider.pause() during breaks or when the timer is paused.
 // This replaces the duplicated play/pause logic that previously lived in each
-// app's component.
+// app's component. An optional breakProvider (see useBreakMedia) is played
+// during breaks in the same way, so breaks can have media of their own.
+// Providers with a setVolume fade in at the start of each work interval and
+// out over its last seconds rather than cutting in and out.
 //
 // Two modes:
 //
 // 1. "quick" mode — Standard pomodoro: N repetitions of work/break.
-//    Configured via workMinutes, breakMinutes, totalPomodoros.
+//    Configured via workMinutes, breakMinutes, totalPomodoros. Every
+//    longBreakInterval-th break uses longBreakMinutes instead of breakMinutes
+//    (the classic "long break every 4 pomodoros" schedule).
 //
 // 2. "planned" mode — Custom interval sequence. The caller provides a
 //    FlatInterval[] (derived from interval blocks) and the timer steps
@@ -34,23 +80,64 @@ import { formatTime } from "../utils";
 // setOnUserPlay/setOnUserPause (like YouTube does), the hook registers
 // handlers so the user clicking play/pause on the media player starts/stops
 // the timer too.
+//
+// Persistence: when a persistKey is given, the hook snapshots its state to
+// localStorage on every transition (start/pause, work↔break, skip). On mount
+// the last snapshot is exposed as savedSession; the page can offer to resume
+// it, which fast-forwards through any intervals that elapsed while the tab
+// was closed. Pages pass their own state (plan, video queue) as
+// sessionExtras so it is saved alongside the timer.
+//
+// Cross-tab sync: the persistKey also names a useTabSync channel. If the same
+// page is open in several tabs, one tab (the leader) runs the timer and drives
+// the media; the others become remote controls that mirror its state and
+// forward their toggle/skip/reset/... actions to it. When the leader closes,
+// another tab takes over and offers to resume from the saved snapshot.
+//
+// Notifications: when the timer itself moves work→break, break→work or
+// completes, the machine asks for notifyTransition() (desktop notification and/or
+// chime, per the user's opt-in settings). Manual skips don't notify — the
+// user already knows.
+//
+// History: when a source is given, every interval that finishes or is
+// skipped is appended to the IndexedDB log (see sessionHistory.ts) for the
+// stats page. Reset and cancel abandon the current interval without logging.
+//
+// Tasks: every work interval that runs to completion is also credited to
+// the active task in the shared task list (see tasks.ts).
 
 // ---- Quick mode config ----
 export interface QuickPomodoroConfig {
   mode: "quick";
   provider: MediaProvider | null;
+  // Optional: media to play during breaks instead of silence
+  breakProvider?: MediaProvider | null;
+  // Optional: initial long break length and how many pomodoros between long
+  // breaks. Both remain adjustable through the returned setters.
+  longBreakMinutes?: number;
+  longBreakInterval?: number;
   // Optional: override default app title shown when idle/cleanup
   appTitle?: string;
+  // Optional: localStorage key suffix under which to persist the session
+  persistKey?: string;
+  sessionExtras?: SessionExtras;
+  // Optional: log finished intervals to the session history under this source
+  source?: MediaSource;
 }
 
 // ---- Planned mode config ----
 export interface PlannedPomodoroConfig {
   mode: "planned";
   provider: MediaProvider | null;
+  breakProvider?: MediaProvider | null;
   // The flattened interval sequence to step through. Must be set before
   // the timer starts. Can be empty during the planning phase.
   intervals: FlatInterval[];
   appTitle?: string;
+  persistKey?: string;
+  // Should include intervalBlocks so the plan can be rebuilt on resume
+  sessionExtras?: SessionExtras;
+  source?: MediaSource;
 }
 
 export type PomodoroConfig = QuickPomodoroConfig | PlannedPomodoroConfig;
@@ -62,14 +149,19 @@ export interface PomodoroState {
   workMinutes: number;
   breakMinutes: number;
   totalPomodoros: number;
+  longBreakMinutes: number;
+  longBreakInterval: number; // a long break follows every Nth pomodoro
   setWorkMinutes: (v: number) => void;
   setBreakMinutes: (v: number) => void;
   setTotalPomodoros: (v: number) => void;
+  setLongBreakMinutes: (v: number) => void;
+  setLongBreakInterval: (v: number) => void;
   setPreset: (workMins: number, breakMins: number) => void;
 
   // Timer state
   isRunning: boolean;
   isWorking: boolean; // true during work intervals, false during breaks
+  isLongBreak: boolean; // true during a long break (quick mode only)
   timeLeft: number; // seconds remaining in the current interval
   timerComplete: boolean; // true when all intervals are done
   currentPomodoro: number; // 0-based index of the current pomodoro (quick mode)
@@ -90,391 +182,423 @@ export interface PomodoroState {
   startPlannedSession: (intervals: FlatInterval[]) => void;
   cancelPlannedSession: () => void;
   isPlannedRunning: boolean; // whether in the "running" phase of planned mode
+
+  // Cross-tab sync: true when another tab owns the timer and this one is
+  // only mirroring it. Actions are forwarded to the owning tab.
+  isRemote: boolean;
+
+  // Persistence (only populated when a persistKey is configured)
+  savedSession: SavedSession | null; // unfinished session found on mount
+  // Restores the saved timer state and returns the session so the caller
+  // can restore its extras. Returns null if there was nothing to resume.
+  resumeSession: () => SavedSession | null;
+  discardSavedSession: () => void;
 }
 
 export function usePomodoro(config: PomodoroConfig): PomodoroState {
-  const { mode, provider } = config;
+  const { mode, provider, persistKey, sessionExtras, source } = config;
+  const breakProvider = config.breakProvider ?? null;
   const appTitle = config.appTitle ?? "Pomodoro Player";
 
-  // ---- Quick mode settings ----
-  const [workMinutes, setWorkMinutes] = useState<number>(25);
-  const [breakMinutes, setBreakMinutes] = useState<number>(5);
-  const [totalPomodoros, setTotalPomodoros] = useState<number>(4);
-  const [currentPomodoro, setCurrentPomodoro] = useState<number>(0);
-
-  // ---- Planned mode state ----
-  const [flatIntervals, setFlatIntervals] = useState<FlatInterval[]>([]);
-  const [currentIntervalIndex, setCurrentIntervalIndex] = useState<number>(0);
-  const [isPlannedRunning, setIsPlannedRunning] = useState<boolean>(false);
-
-  // ---- Shared timer state ----
-  const [isRunning, setIsRunning] = useState<boolean>(false);
-  const [isWorking, setIsWorking] = useState<boolean>(true);
-  const [timeLeft, setTimeLeft] = useState<number>(25 * 60);
-  const [timerComplete, setTimerComplete] = useState<boolean>(false);
-
-  // ---- Refs for precise timing ----
-  const intervalRef = useRef<number | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const endTimeRef = useRef<number>(0);
-  const isRunningRef = useRef<boolean>(false);
-  const timeLeftRef = useRef<number>(25 * 60);
-  // Tracks whether the timer has been started since the last reset. Used by
-  // the settings-sync effect to distinguish "paused" from "idle" — we only
-  // want to overwrite timeLeft with the settings value when the timer has
-  // never been started (or has been explicitly reset), NOT when the user
-  // merely pauses mid-session.
-  const hasBeenStartedRef = useRef<boolean>(false);
-
-  // Keep refs in sync
-  useEffect(() => { isRunningRef.current = isRunning; }, [isRunning]);
-  useEffect(() => { timeLeftRef.current = timeLeft; }, [timeLeft]);
-
-  // ---- Current interval for planned mode ----
-  const currentInterval =
-    mode === "planned" && flatIntervals.length > 0
-      ? flatIntervals[currentIntervalIndex] ?? null
-      : null;
-
-  // In planned mode, isWorking is derived from the current interval type
-  useEffect(() => {
-    if (mode === "planned" && currentInterval) {
-      setIsWorking(currentInterval.type === "work");
+  // ---- Saved session from a previous page load ----
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(() =>
+    persistKey ? loadResumableSession(persistKey) : null,
+  );
+
+  // ---- Timer state ----
+  // The machine's state lives in a ref as well as in React state, so that
+  // dispatch can step from the latest state synchronously (several actions
+  // may arrive before the next render) and then publish it for rendering.
+  const [timer, setTimer] = useState<TimerState>(() =>
+    createTimerState(mode, {
+      longBreakMinutes: mode === "quick" ? config.longBreakMinutes : undefined,
+      longBreakInterval: mode === "quick" ? config.longBreakInterval : undefined,
+    }),
+  );
+  const timerRef = useRef<TimerState>(timer);
+  const schedulerRef = useRef<TimerScheduler | null>(null);
+
+  // ---- Side effects requested by the machine ----
+  const runEffect = useCallback((effect: TimerEffect): void => {
+    switch (effect.type) {
+      case "intervalEnded":
+        if (source) logInterval({ ...effect.interval, source, mode });
+        if (effect.interval.type === "work" && !effect.interval.skipped) {
+          creditActiveTask();
+        }
+        break;
+      case "notify":
+        notifyTransition(effect.transition, {
+          durationMinutes: effect.durationMinutes,
+          appTitle,
+        });
+        break;
+    }
+  }, [source, mode, appTitle]);
+  const runEffectRef = useRef(runEffect);
+  useEffect(() => { runEffectRef.current = runEffect; }, [runEffect]);
+
+  const dispatch = useCallback((action: TimerAction): void => {
+    const { state, effects } = stepTimer(timerRef.current, action, systemClock);
+    if (state !== timerRef.current) {
+      timerRef.current = state;
+      setTimer(state);
     }
-  }, [mode, currentInterval]);
+    effects.forEach((effect) => runEffectRef.current(effect));
+  }, []);
+
+  // ---- Cross-tab sync ----
+  // getState/onCommand are only invoked from channel messages, after render,
+  // so they can refer to the callbacks defined further down.
+  const { role, remoteState, broadcastState, sendCommand } = useTabSync({
+    key: persistKey,
+    getState: () => toSyncedState(timerRef.current),
+    onCommand: (command) => runCommand(command),
+  });
+  const isRemote = role === "follower";
+
+  // What this tab displays: its own timer, or the leader's mirrored state.
+  // Effects below always act on the local timer; the view only feeds the
+  // returned values and the document title.
+  const view: Omit<SyncedTimerState, "endTime"> =
+    isRemote && remoteState ? remoteState : timer;
 
   // ---- Computed values ----
+  const currentInterval =
+    mode === "planned" && view.flatIntervals.length > 0
+      ? view.flatIntervals[view.currentIntervalIndex] ?? null
+      : null;
+
   // For quick mode, the session duration is the current work or break duration.
   // For planned mode, it's the current interval's duration.
-  const sessionTotalSeconds =
-    mode === "planned"
-      ? (currentInterval?.durationMinutes ?? 0) * 60
-      : isWorking
-        ? workMinutes * 60
-        : breakMinutes * 60;
+  const sessionTotalSeconds = intervalSeconds(view);
 
   const progress =
     sessionTotalSeconds > 0
-      ? Math.min(1, Math.max(0, 1 - timeLeft / sessionTotalSeconds))
+      ? Math.min(1, Math.max(0, 1 - view.timeLeft / sessionTotalSeconds))
       : 0;
 
-  // ---- Preset helper (quick mode) ----
-  const setPreset = useCallback((workMins: number, breakMins: number): void => {
-    setWorkMinutes(workMins);
-    setBreakMinutes(breakMins);
-    if (!isRunningRef.current) {
-      // Update display to match new preset
-      setTimeLeft(workMins * 60);
-      setIsWorking(true);
-    }
+  // ---- Volume fades ----
+  // The work media's level follows the countdown while a work interval runs
+  // (see fadeLevel), so it's right after a pause or a reload too. This runs
+  // before the media sync below, so a new work interval starts silent; the
+  // level goes back to 1 in the media sync once the work media has been
+  // paused.
+  const { settings: fadeSettings } = useFadeSettings();
+  const { isWorking, isRunning, timeLeft } = timer;
+  const workSeconds = intervalSeconds(timer);
+  const workVolumeRef = useRef(1);
+  const setWorkVolume = useCallback((work: MediaProvider, level: number) => {
+    if (!work.setVolume || level === workVolumeRef.current) return;
+    workVolumeRef.current = level;
+    return work.setVolume(level);
   }, []);
-
-  // ---- Sync timeLeft to quick-mode settings when not running ----
-  // When the user changes workMinutes or breakMinutes while the timer is idle,
-  // update timeLeft so the display matches. We guard on hasBeenStartedRef so
-  // that pausing (isRunning → false) does NOT reset timeLeft. The ref is only
-  // cleared on explicit reset, making this safe.
   useEffect(() => {
-    if (mode !== "quick" || isRunning || hasBeenStartedRef.current) return;
-    if (isWorking) {
-      setTimeLeft(workMinutes * 60);
-    } else {
-      setTimeLeft(breakMinutes * 60);
-    }
-  }, [mode, workMinutes, breakMinutes, isRunning, isWorking]);
+    if (role !== "leader" || !isRunning || !isWorking) return;
+    if (!provider?.isReady()) return;
+    setWorkVolume(provider, fadeLevel(workSeconds - timeLeft, timeLeft, fadeSettings));
+  }, [isWorking, isRunning, timeLeft, workSeconds, fadeSettings, provider, role, setWorkVolume]);
 
   // ---- Media sync ----
-  // Play media during work intervals when running, pause otherwise.
-  // This is the central place where the provider gets play/pause calls.
+  // Play media during work intervals when running, and the break media (if
+  // any) during breaks. This is the central place where the providers get
+  // play/pause calls. Only the leader tab touches media — a follower pausing
+  // on mount would otherwise stop the leader's Spotify playback.
+  //
+  // The provider this tab last started is kept in a ref, and only that one
+  // is ever paused: a provider becoming ready, or this tab being elected
+  // leader (on mount, or when the old leader tab closes), while the timer
+  // is idle must not stop playback the user started elsewhere (Spotify on
+  // their phone). It's paused before the next one plays, since both may
+  // drive the same player (Spotify).
+  //
+  // Providers are stable objects, so their readiness is also read at render
+  // and listed as a dependency: a source that becomes ready mid-interval (a
+  // radio station picked, local files added) starts straight away instead
+  // of at the next transition.
+  const workReady = !!provider?.isReady();
+  const breakReady = !!breakProvider?.isReady();
+  const playingRef = useRef<MediaProvider | null>(null);
   useEffect(() => {
-    if (!provider || !provider.isReady()) return;
-    if (isWorking && isRunning) {
-      provider.play();
-    } else {
-      provider.pause();
-    }
-  }, [isWorking, isRunning, provider]);
+    if (role !== "leader") return;
+    const work = provider?.isReady() ? provider : null;
+    const rest = breakProvider?.isReady() ? breakProvider : null;
+    const active = isRunning ? (isWorking ? work : rest) : null;
+    const started = playingRef.current;
+    if (active === started) return;
+    playingRef.current = active;
+    // A provider that fails to pause or restore its volume mustn't keep the
+    // other one from starting; failures are only logged
+    Promise.resolve()
+      .then(() => started?.pause())
+      .catch((err) => console.error("Failed to pause media:", err))
+      .then(() => {
+        if (work && work !== active) return setWorkVolume(work, 1);
+      })
+      .catch((err) => console.error("Failed to restore media volume:", err))
+      .then(() => active?.play())
+      .catch((err) => console.error("Failed to start media:", err));
+  }, [isWorking, isRunning, provider, breakProvider, workReady, breakReady, role, setWorkVolume]);
 
   // ---- Bidirectional sync with media provider ----
   // If the provider supports it (YouTube), register callbacks so that the
   // user clicking play/pause on the media player starts/stops the timer.
   useEffect(() => {
-    if (!provider) return;
+    if (!provider || role !== "leader") return;
     if (provider.setOnUserPlay) {
-      provider.setOnUserPlay(() => {
-        if (!isRunningRef.current) setIsRunning(true);
-      });
+      provider.setOnUserPlay(() => dispatch({ type: "setRunning", running: true }));
     }
     if (provider.setOnUserPause) {
-      provider.setOnUserPause(() => {
-        if (isRunningRef.current) setIsRunning(false);
-      });
+      provider.setOnUserPause(() => dispatch({ type: "setRunning", running: false }));
     }
     return () => {
       if (provider.setOnUserPlay) provider.setOnUserPlay(null);
       if (provider.setOnUserPause) provider.setOnUserPause(null);
     };
-  }, [provider]);
+  }, [provider, role, dispatch]);
 
-  // ---- Timer tick logic ----
-  // This is the core engine. On start/resume, we record endTimeRef. Each tick
-  // computes remaining from the current time. When remaining hits zero, we
-  // transition to the next interval (quick mode) or the next flat interval
-  // (planned mode).
+  // ---- Scheduler lifetime ----
+  // One scheduler per mounted timer; its worker is spawned on first use.
   useEffect(() => {
-    const shouldRun =
-      mode === "quick"
-        ? isRunning && !timerComplete
-        : isRunning && !timerComplete && isPlannedRunning;
-
-    if (!shouldRun) return;
-
-    // Set end time on first tick after start/resume
-    if (!intervalRef.current) {
-      startTimeRef.current = Date.now();
-      endTimeRef.current = startTimeRef.current + timeLeftRef.current * 1000;
-    }
-
-    intervalRef.current = window.setInterval(() => {
-      const now = Date.now();
-      const remainingMs = endTimeRef.current - now;
-
-      if (remainingMs <= 0) {
-        clearInterval(intervalRef.current!);
-        intervalRef.current = null;
-        setTimeLeft(0);
-
-        if (mode === "quick") {
-          // Quick mode transitions
-          if (isWorking) {
-            const nextPomodoro = currentPomodoro + 1;
-            if (nextPomodoro >= totalPomodoros) {
-              setTimerComplete(true);
-              setIsRunning(false);
-            } else {
-              setIsWorking(false);
-              setCurrentPomodoro(nextPomodoro);
-              setTimeLeft(breakMinutes * 60);
-            }
-          } else {
-            setIsWorking(true);
-            setTimeLeft(workMinutes * 60);
-          }
-        } else {
-          // Planned mode transitions
-          const nextIndex = currentIntervalIndex + 1;
-          if (nextIndex >= flatIntervals.length) {
-            setTimerComplete(true);
-            setIsRunning(false);
-          } else {
-            setCurrentIntervalIndex(nextIndex);
-            setTimeLeft(flatIntervals[nextIndex].durationMinutes * 60);
-          }
-        }
-        return;
-      }
-      setTimeLeft(Math.ceil(remainingMs / 1000));
-    }, 1000);
-
+    const scheduler = createTimerScheduler();
+    schedulerRef.current = scheduler;
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      scheduler.dispose();
+      schedulerRef.current = null;
     };
-    // timeLeft is intentionally omitted — including it would restart the
-    // interval on every tick, defeating the timestamp-based approach.
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // ---- Countdown ----
+  // While the timer counts down, the scheduler wakes it every second and at
+  // the interval's end; each wake-up is a "tick" for the machine, which
+  // recomputes timeLeft from endTime and transitions once it has passed.
+  // A transition sets a new endTime, which reschedules.
+  const counting = isCounting(timer);
+  const { endTime } = timer;
+  useEffect(() => {
+    const scheduler = schedulerRef.current;
+    if (!counting || !scheduler) return;
+    const tick = () => dispatch({ type: "tick" });
+    scheduler.start(endTime, { onTick: tick, onExpire: tick });
+    return () => scheduler.stop();
+  }, [counting, endTime, dispatch]);
+
+  // ---- Persist snapshot on every transition ----
+  // timeLeft is read from the ref rather than listed as a dependency — we
+  // save on transitions, not ticks. Nothing is written until the timer has
+  // been started (or a plan is loaded), so an untouched page never
+  // overwrites a session awaiting resume.
+  useEffect(() => {
+    if (!persistKey) return;
+    if (timer.timerComplete) {
+      clearSession(persistKey);
+      return;
+    }
+    if (!timer.hasBeenStarted && !timer.isPlannedRunning) return;
+    saveSession(persistKey, {
+      version: 1,
+      savedAt: Date.now(),
+      timer: toSyncedState(timerRef.current),
+      extras: sessionExtras,
+    });
   }, [
-    mode,
-    isRunning,
-    isWorking,
-    breakMinutes,
-    workMinutes,
-    currentPomodoro,
-    totalPomodoros,
-    timerComplete,
-    isPlannedRunning,
-    currentIntervalIndex,
-    flatIntervals,
+    persistKey,
+    sessionExtras,
+    timer.workMinutes,
+    timer.breakMinutes,
+    timer.totalPomodoros,
+    timer.longBreakMinutes,
+    timer.longBreakInterval,
+    timer.isRunning,
+    timer.isWorking,
+    timer.isLongBreak,
+    timer.timerComplete,
+    timer.currentPomodoro,
+    timer.currentIntervalIndex,
+    timer.flatIntervals,
+    timer.isPlannedRunning,
+    timer.hasBeenStarted,
   ]);
 
+  // ---- Cross-tab: broadcast state and handle takeover ----
+
+  // The leader pushes its state to followers on every change, ticks included.
+  useEffect(() => {
+    if (role === "leader") broadcastState(toSyncedState(timer));
+  }, [role, broadcastState, timer]);
+
+  // When the leader tab closes and this follower inherits the timer, its own
+  // timer is idle. The old leader's last snapshot is in localStorage, so
+  // surface it as a saved session for the page to offer resuming.
+  const prevRoleRef = useRef(role);
+  useEffect(() => {
+    if (prevRoleRef.current === "follower" && role === "leader" && persistKey) {
+      setSavedSession(loadResumableSession(persistKey));
+    }
+    prevRoleRef.current = role;
+  }, [role, persistKey]);
+
   // ---- Visibility change handler ----
-  // When the user switches away from the tab and comes back, the setInterval
-  // may have been throttled. We recalculate timeLeft from the end timestamp
-  // to stay accurate.
+  // When the user switches away from the tab and comes back, redraw timeLeft
+  // from the end timestamp straight away. The worker keeps ticking in the
+  // background, but the main-thread fallback scheduler may have been
+  // throttled.
   useEffect(() => {
     const onVisibilityChange = () => {
-      if (!document.hidden && isRunning && !timerComplete) {
-        const now = Date.now();
-        const remaining = endTimeRef.current - now;
-        setTimeLeft(Math.max(0, Math.ceil(remaining / 1000)));
-      }
+      if (!document.hidden) dispatch({ type: "tick" });
     };
     document.addEventListener("visibilitychange", onVisibilityChange);
     return () => document.removeEventListener("visibilitychange", onVisibilityChange);
-  }, [isRunning, timerComplete]);
+  }, [dispatch]);
 
   // ---- Document title ----
+  // Follows the view so a follower tab's title tracks the leader's timer.
   useEffect(() => {
-    if (timerComplete) {
+    if (view.timerComplete) {
       document.title = "Pomodoro Complete";
-    } else if (isRunning) {
-      const formattedTime = formatTime(timeLeft);
-      const status = isWorking ? "Work" : "Break";
+    } else if (view.isRunning) {
+      const formattedTime = formatTime(view.timeLeft);
+      const status = view.isWorking
+        ? "Work"
+        : view.isLongBreak ? "Long break" : "Break";
       document.title = `${formattedTime} - ${status} | ${appTitle}`;
     } else {
       document.title = appTitle;
     }
     return () => { document.title = appTitle; };
-  }, [timeLeft, isWorking, isRunning, timerComplete, appTitle]);
+  }, [
+    view.timeLeft, view.isWorking, view.isLongBreak, view.isRunning,
+    view.timerComplete, appTitle,
+  ]);
 
   // ---- Timer controls ----
 
   const toggleTimer = useCallback((): void => {
-    if (timerComplete) {
-      if (mode === "quick") {
-        setIsWorking(true);
-        setCurrentPomodoro(0);
-        setTimeLeft(workMinutes * 60);
-      } else {
-        // Planned mode restart
-        setCurrentIntervalIndex(0);
-        if (flatIntervals.length > 0) {
-          setTimeLeft(flatIntervals[0].durationMinutes * 60);
-        }
-      }
-      setTimerComplete(false);
-    }
-    // Mark the timer as "has been started" so the settings-sync effect
-    // won't clobber timeLeft on pause.
-    hasBeenStartedRef.current = true;
-    setIsRunning((prev) => !prev);
-  }, [timerComplete, mode, workMinutes, flatIntervals]);
+    // Starting afresh supersedes any session that was awaiting resume
+    setSavedSession(null);
+    dispatch({ type: "toggle" });
+  }, [dispatch]);
 
   const resetTimer = useCallback((): void => {
-    setIsRunning(false);
-    hasBeenStartedRef.current = false;
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    if (mode === "quick") {
-      setIsWorking(true);
-      setCurrentPomodoro(0);
-      setTimeLeft(workMinutes * 60);
-    } else {
-      setCurrentIntervalIndex(0);
-      if (flatIntervals.length > 0) {
-        setTimeLeft(flatIntervals[0].durationMinutes * 60);
-      }
-    }
-    setTimerComplete(false);
-  }, [mode, workMinutes, flatIntervals]);
+    if (persistKey) clearSession(persistKey);
+    dispatch({ type: "reset" });
+  }, [persistKey, dispatch]);
 
   const skipSession = useCallback((): void => {
-    if (timerComplete) return;
+    dispatch({ type: "skip" });
+  }, [dispatch]);
 
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
+  // ---- Quick mode settings ----
 
-    if (mode === "quick") {
-      if (isWorking) {
-        const nextPomodoro = currentPomodoro + 1;
-        if (nextPomodoro >= totalPomodoros) {
-          setTimerComplete(true);
-          setIsRunning(false);
-        } else {
-          setIsWorking(false);
-          setCurrentPomodoro(nextPomodoro);
-          setTimeLeft(breakMinutes * 60);
-          startTimeRef.current = Date.now();
-          endTimeRef.current = startTimeRef.current + breakMinutes * 60 * 1000;
-        }
-      } else {
-        setIsWorking(true);
-        setTimeLeft(workMinutes * 60);
-        startTimeRef.current = Date.now();
-        endTimeRef.current = startTimeRef.current + workMinutes * 60 * 1000;
-      }
-    } else {
-      // Planned mode skip
-      const nextIndex = currentIntervalIndex + 1;
-      if (nextIndex >= flatIntervals.length) {
-        setTimerComplete(true);
-        setIsRunning(false);
-      } else {
-        setCurrentIntervalIndex(nextIndex);
-        setTimeLeft(flatIntervals[nextIndex].durationMinutes * 60);
-        startTimeRef.current = Date.now();
-        endTimeRef.current =
-          startTimeRef.current + flatIntervals[nextIndex].durationMinutes * 60 * 1000;
-      }
-    }
-  }, [
-    timerComplete, mode, isWorking, currentPomodoro, totalPomodoros,
-    breakMinutes, workMinutes, currentIntervalIndex, flatIntervals,
-  ]);
+  const setSetting = useCallback((key: TimerSettingKey, value: number): void => {
+    dispatch({ type: "setting", key, value });
+  }, [dispatch]);
+
+  const setPreset = useCallback((workMins: number, breakMins: number): void => {
+    dispatch({ type: "preset", workMinutes: workMins, breakMinutes: breakMins });
+  }, [dispatch]);
 
   // ---- Planned mode session management ----
 
   const startPlannedSession = useCallback((intervals: FlatInterval[]): void => {
-    setFlatIntervals(intervals);
-    setCurrentIntervalIndex(0);
-    if (intervals.length > 0) {
-      setTimeLeft(intervals[0].durationMinutes * 60);
-    }
-    setTimerComplete(false);
-    setIsRunning(false);
-    setIsPlannedRunning(true);
-  }, []);
+    dispatch({ type: "startPlanned", intervals });
+    setSavedSession(null);
+  }, [dispatch]);
 
   const cancelPlannedSession = useCallback((): void => {
-    setIsRunning(false);
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    if (persistKey) clearSession(persistKey);
+    dispatch({ type: "cancelPlanned" });
+  }, [persistKey, dispatch]);
+
+  // ---- Session resume ----
+
+  const resumeSession = useCallback((): SavedSession | null => {
+    if (!savedSession) return null;
+    const snapshot = fastForwardSnapshot(savedSession.timer, Date.now());
+    setSavedSession(null);
+    dispatch({ type: "resume", snapshot });
+    return { ...savedSession, timer: snapshot };
+  }, [savedSession, dispatch]);
+
+  const discardSavedSession = useCallback((): void => {
+    if (persistKey) clearSession(persistKey);
+    setSavedSession(null);
+  }, [persistKey]);
+
+  // ---- Cross-tab commands ----
+  // Leader side: runs a command forwarded by a follower tab.
+  const runCommand = (command: TimerCommand): void => {
+    switch (command.kind) {
+      case "toggle": toggleTimer(); break;
+      case "skip": skipSession(); break;
+      case "reset": resetTimer(); break;
+      case "cancel": cancelPlannedSession(); break;
+      case "start": startPlannedSession(command.intervals); break;
+      case "preset": setPreset(command.workMinutes, command.breakMinutes); break;
+      case "setting": setSetting(command.key, command.value); break;
     }
-    setIsPlannedRunning(false);
-    setTimerComplete(false);
-    setFlatIntervals([]);
-    setCurrentIntervalIndex(0);
-  }, []);
+  };
+
+  // Follower side: the returned actions forward to the leader instead.
+  const forward = isRemote ? sendCommand : null;
+  const settingSetter = (key: TimerSettingKey) =>
+    forward
+      ? (value: number) => forward({ kind: "setting", key, value })
+      : (value: number) => setSetting(key, value);
 
   return {
     // Settings
-    workMinutes,
-    breakMinutes,
-    totalPomodoros,
-    setWorkMinutes,
-    setBreakMinutes,
-    setTotalPomodoros,
-    setPreset,
+    workMinutes: view.workMinutes,
+    breakMinutes: view.breakMinutes,
+    totalPomodoros: view.totalPomodoros,
+    longBreakMinutes: view.longBreakMinutes,
+    longBreakInterval: view.longBreakInterval,
+    setWorkMinutes: settingSetter("workMinutes"),
+    setBreakMinutes: settingSetter("breakMinutes"),
+    setTotalPomodoros: settingSetter("totalPomodoros"),
+    setLongBreakMinutes: settingSetter("longBreakMinutes"),
+    setLongBreakInterval: settingSetter("longBreakInterval"),
+    setPreset: forward
+      ? (workMins, breakMins) =>
+          forward({ kind: "preset", workMinutes: workMins, breakMinutes: breakMins })
+      : setPreset,
 
     // Timer state
-    isRunning,
-    isWorking,
-    timeLeft,
-    timerComplete,
-    currentPomodoro,
+    isRunning: view.isRunning,
+    isWorking: view.isWorking,
+    isLongBreak: view.isLongBreak,
+    timeLeft: view.timeLeft,
+    timerComplete: view.timerComplete,
+    // The long break after the last pomodoro counts one past the end
+    currentPomodoro: Math.min(view.currentPomodoro, view.totalPomodoros - 1),
     progress,
     sessionTotalSeconds,
 
     // Planned mode extras
-    currentIntervalIndex,
-    flatIntervals,
+    currentIntervalIndex: view.currentIntervalIndex,
+    flatIntervals: view.flatIntervals,
     currentInterval,
 
     // Actions
-    toggleTimer,
-    resetTimer,
-    skipSession,
+    toggleTimer: forward ? () => forward({ kind: "toggle" }) : toggleTimer,
+    resetTimer: forward ? () => forward({ kind: "reset" }) : resetTimer,
+    skipSession: forward ? () => forward({ kind: "skip" }) : skipSession,
 
     // Planned mode actions
-    startPlannedSession,
-    cancelPlannedSession,
-    isPlannedRunning,
+    startPlannedSession: forward
+      ? (intervals) => forward({ kind: "start", intervals })
+      : startPlannedSession,
+    cancelPlannedSession: forward
+      ? () => forward({ kind: "cancel" })
+      : cancelPlannedSession,
+    isPlannedRunning: view.isPlannedRunning,
+
+    // Persistence — a session awaiting resume belongs to the leader
+    savedSession: role === "leader" ? savedSession : null,
+    resumeSession,
+    discardSavedSession,
+
+    // Cross-tab sync
+    isRemote,
   };
 }
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+
+// Registers the offline service worker (src/sw.ts, emitted as /sw.js) and
+// reports when a newer build has been installed and is waiting.
+//
+// The waiting worker never activates on its own: applyUpdate() tells it to
+// skip waiting, and once it has taken control the page reloads onto the new
+// build. Any running session is restored from localStorage after the reload,
+// same as after a manual refresh.
+//
+// Only registered in production builds — in dev, Vite serves unbundled
+// modules that the precache list wouldn't cover.
+
+const SW_URL = "/sw.js";
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+  // Set once the user accepts the update, so that the controllerchange
+  // from the very first install (clients.claim) doesn't reload the page.
+  const reloadOnChangeRef = useRef(false);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+    let cancelled = false;
+    let intervalId: number | undefined;
+
+    // A worker that finishes installing while another one controls the page
+    // is an update; with no controller it's the first install.
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    const handleControllerChange = () => {
+      if (reloadOnChangeRef.current) window.location.reload();
+    };
+
+    navigator.serviceWorker
+      .register(SW_URL)
+      .then((reg) => {
+        if (cancelled) return;
+        if (reg.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(reg.waiting);
+        }
+        reg.addEventListener("updatefound", () => {
+          if (reg.installing) trackInstalling(reg.installing);
+        });
+        // Long-lived tabs (a whole day of pomodoros) should still notice deploys
+        intervalId = window.setInterval(() => {
+          reg.update().catch(() => {});
+        }, UPDATE_CHECK_INTERVAL_MS);
+      })
+      .catch((err) => {
+        console.error("Service worker registration failed:", err);
+      });
+
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    reloadOnChangeRef.current = true;
+    waitingWorker.postMessage({ type: "SKIP_WAITING" });
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => {
+    setWaitingWorker(null);
+  }, []);
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate, dismissUpdate };
+}
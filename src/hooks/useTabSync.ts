@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { TabRole, SyncedTimerState, TimerCommand } from "../types";
+
+// =============================================================================
+// useTabSync — Leader election and state sync between tabs of the same page
+// =============================================================================
+//
+// When the same session page is open in several tabs, only one of them should
+// run the timer and drive the media. This hook elects that tab ("leader") and
+// turns the others into remote controls ("followers"):
+//
+// - Election uses the Web Locks API. Every tab requests the same named lock;
+//   the holder is the leader and keeps it until the tab closes, at which point
+//   the browser hands it to the next waiting tab. No heartbeats or timeouts.
+// - A BroadcastChannel carries the leader's timer state to followers on every
+//   change, and followers' commands (toggle/skip/reset/...) to the leader.
+// - A follower that joins late sends "hello" and the leader replies with its
+//   current state, so the mirror is populated immediately.
+//
+// Until the election resolves the role is "pending": the caller should hold
+// off on side effects (media play/pause) so a new tab doesn't pause the
+// leader's Spotify before it learns it is a follower. Browsers without Web
+// Locks or BroadcastChannel just get role "leader" — every tab runs its own
+// timer, as before this hook existed.
+
+type SyncMessage =
+  | { type: "hello" }
+  | { type: "state"; state: SyncedTimerState }
+  | { type: "command"; command: TimerCommand };
+
+const CHANNEL_PREFIX = "pomodoro-sync-";
+
+function isSyncSupported(): boolean {
+  return typeof BroadcastChannel !== "undefined" && !!navigator.locks;
+}
+
+export interface UseTabSyncOptions {
+  // Tabs with the same key coordinate; no key disables sync.
+  key?: string;
+  // Leader only: returns the state to send to a follower that says hello.
+  getState: () => SyncedTimerState;
+  // Leader only: runs a command forwarded by a follower.
+  onCommand: (command: TimerCommand) => void;
+}
+
+export interface UseTabSyncResult {
+  role: TabRole;
+  // The leader's latest state (followers only; null until the first message)
+  remoteState: SyncedTimerState | null;
+  broadcastState: (state: SyncedTimerState) => void;
+  sendCommand: (command: TimerCommand) => void;
+}
+
+export function useTabSync(options: UseTabSyncOptions): UseTabSyncResult {
+  const { key } = options;
+  const enabled = !!key && isSyncSupported();
+
+  const [role, setRole] = useState<TabRole>(enabled ? "pending" : "leader");
+  const [remoteState, setRemoteState] = useState<SyncedTimerState | null>(null);
+
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const roleRef = useRef<TabRole>(role);
+  // Latest callbacks, so the channel listener never sees a stale closure
+  const getStateRef = useRef(options.getState);
+  const onCommandRef = useRef(options.onCommand);
+  getStateRef.current = options.getState;
+  onCommandRef.current = options.onCommand;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = new BroadcastChannel(CHANNEL_PREFIX + key);
+    channelRef.current = channel;
+    const post = (message: SyncMessage) => channel.postMessage(message);
+    // Lock callbacks can fire after cleanup (e.g. StrictMode remounts); they
+    // must not touch this component's state once it has moved on.
+    let active = true;
+
+    const becomeLeader = () => {
+      if (!active) return;
+      roleRef.current = "leader";
+      setRole("leader");
+      setRemoteState(null);
+    };
+
+    const becomeFollower = () => {
+      if (!active) return;
+      roleRef.current = "follower";
+      setRole("follower");
+      post({ type: "hello" });
+    };
+
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const message = event.data;
+      if (roleRef.current === "leader") {
+        if (message.type === "hello") {
+          post({ type: "state", state: getStateRef.current() });
+        } else if (message.type === "command") {
+          onCommandRef.current(message.command);
+        }
+      } else if (message.type === "state") {
+        setRemoteState(message.state);
+      }
+    };
+
+    // Resolving this releases the lock (on unmount / navigation away)
+    let release: () => void = () => {};
+    const held = new Promise<void>((resolve) => { release = resolve; });
+    const abort = new AbortController();
+
+    navigator.locks
+      .request(CHANNEL_PREFIX + key, { ifAvailable: true }, async (lock) => {
+        if (lock) {
+          becomeLeader();
+          return held;
+        }
+        // Another tab owns the timer. Mirror it, and queue for the lock so
+        // we take over when that tab closes.
+        becomeFollower();
+        navigator.locks
+          .request(CHANNEL_PREFIX + key, { signal: abort.signal }, () => {
+            becomeLeader();
+            return held;
+          })
+          .catch(() => {
+            // AbortError on unmount while still waiting — nothing to do
+          });
+      })
+      .catch((err) => {
+        console.error("Failed to acquire timer lock:", err);
+      });
+
+    return () => {
+      active = false;
+      abort.abort();
+      release();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [enabled, key]);
+
+  const broadcastState = useCallback((state: SyncedTimerState) => {
+    if (roleRef.current !== "leader" || !channelRef.current) return;
+    channelRef.current.postMessage({ type: "state", state } satisfies SyncMessage);
+  }, []);
+
+  const sendCommand = useCallback((command: TimerCommand) => {
+    if (!channelRef.current) return;
+    channelRef.current.postMessage({ type: "command", command } satisfies SyncMessage);
+  }, []);
+
+  return { role, remoteState, broadcastState, sendCommand };
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Task, TaskList } from "../types";
+import { generateId } from "../utils";
+import { loadTaskList, subscribeTaskList, updateTaskList } from "../tasks";
+
+// =============================================================================
+// useTasks — The shared task list for the task panel
+// =============================================================================
+//
+// Mirrors the persisted task list (see tasks.ts) into React state and offers
+// the panel's edit actions. Every action writes straight to storage and the
+// subscription feeds the result back, so credits from the timer, edits here
+// and edits in other tabs all land in the same list.
+
+export const MAX_ESTIMATE = 20;
+
+const clampEstimate = (n: number): number =>
+  Math.min(MAX_ESTIMATE, Math.max(1, Math.round(n) || 1));
+
+export function useTasks() {
+  const [list, setList] = useState<TaskList>(loadTaskList);
+
+  useEffect(() => subscribeTaskList(setList), []);
+
+  const addTask = useCallback((title: string, estimatedPomodoros: number) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    const task: Task = {
+      id: generateId(),
+      title: trimmed,
+      estimatedPomodoros: clampEstimate(estimatedPomodoros),
+      completedPomodoros: 0,
+      done: false,
+      createdAt: Date.now(),
+    };
+    updateTaskList((prev) => ({
+      tasks: [...prev.tasks, task],
+      // The first task becomes active so credits start flowing right away
+      activeTaskId: prev.activeTaskId ?? task.id,
+    }));
+  }, []);
+
+  const setEstimate = useCallback((id: string, estimatedPomodoros: number) => {
+    updateTaskList((prev) => ({
+      ...prev,
+      tasks: prev.tasks.map((t) =>
+        t.id === id ? { ...t, estimatedPomodoros: clampEstimate(estimatedPomodoros) } : t,
+      ),
+    }));
+  }, []);
+
+  // Picking a done task reopens it; picking the active task again clears it
+  const setActiveTask = useCallback((id: string | null) => {
+    updateTaskList((prev) => ({
+      tasks: prev.tasks.map((t) => (t.id === id ? { ...t, done: false } : t)),
+      activeTaskId: id === prev.activeTaskId ? null : id,
+    }));
+  }, []);
+
+  // A task marked done stops being the active one
+  const toggleDone = useCallback((id: string) => {
+    updateTaskList((prev) => {
+      const task = prev.tasks.find((t) => t.id === id);
+      if (!task) return prev;
+      return {
+        tasks: prev.tasks.map((t) => (t.id === id ? { ...t, done: !t.done } : t)),
+        activeTaskId: !task.done && prev.activeTaskId === id ? null : prev.activeTaskId,
+      };
+    });
+  }, []);
+
+  const removeTask = useCallback((id: string) => {
+    updateTaskList((prev) => ({
+      tasks: prev.tasks.filter((t) => t.id !== id),
+      activeTaskId: prev.activeTaskId === id ? null : prev.activeTaskId,
+    }));
+  }, []);
+
+  const clearDoneTasks = useCallback(() => {
+    updateTaskList((prev) => ({ ...prev, tasks: prev.tasks.filter((t) => !t.done) }));
+  }, []);
+
+  return {
+    tasks: list.tasks,
+    activeTaskId: list.activeTaskId,
+    addTask,
+    setEstimate,
+    setActiveTask,
+    toggleDone,
+    removeTask,
+    clearDoneTasks,
+  };
+}
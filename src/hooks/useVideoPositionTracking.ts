@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import type { YouTubePlayer } from "../types";
+import { extractVideoId } from "../utils";
+
+// =============================================================================
+// useVideoPositionTracking — Remembers how far each YouTube video got
+// =============================================================================
+//
+// Polls a YouTube player while it plays and reports the current video's
+// position to useVideoHistory's savePosition, which the session pages use to
+// offer resuming a video where it left off. When the page is closed the
+// position goes to savePositionNow instead, which writes it to storage
+// before the page is gone. The video ID is read from the
+// player itself, so positions land on the right video across queue advances
+// and playlists without the page having to keep track.
+
+const POLL_MS = 5000;
+
+export function useVideoPositionTracking(
+  playerRef: React.RefObject<YouTubePlayer | null>,
+  savePosition: (id: string, seconds: number, duration: number) => void,
+  savePositionNow: (id: string, seconds: number, duration: number) => void,
+): void {
+  useEffect(() => {
+    const reportTo = (save: typeof savePosition) => () => {
+      const player = playerRef.current;
+      // The handle exists before the IFrame API has finished setting it up
+      if (!player?.getVideoUrl || player.getPlayerState() !== 1) return;
+      const id = extractVideoId(player.getVideoUrl());
+      if (id) save(id, player.getCurrentTime(), player.getDuration());
+    };
+    const interval = setInterval(reportTo(savePosition), POLL_MS);
+    // Catch the last few seconds when the page is closed mid-video
+    const onPageHide = reportTo(savePositionNow);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", onPageHide);
+    };
+  }, [playerRef, savePosition, savePositionNow]);
+}
@@ -1,12 +1,15 @@
 import React from "react";
 import { NavLink, Outlet, useLocation, Link } from "react-router-dom";
 import type { MediaSource } from "../types";
+import { SOURCE_CONFIG } from "../sources";
+import NotificationSettingsPanel from "../components/NotificationSettingsPanel";
+import FadeSettingsPanel from "../components/FadeSettingsPanel";
 
 // =============================================================================
 // SourceLayout — Per-source wrapper with Quick/Planned tab bar
 // =============================================================================
 //
-// This layout is rendered around all YouTube/Spotify/NTS session pages.
+// This layout is rendered around all YouTube/Spotify/NTS/Radio/Noise/Local session pages.
 // It shows the source name in the header, provides the Quick/Planned tab
 // navigation, and renders the active child route via <Outlet />.
 //
@@ -15,26 +18,12 @@ import type { MediaSource } from "../types";
 //
 // We derive the source from the URL pathname (e.g. "/youtube/quick" → "youtube")
 // rather than useParams, because the routes are defined with hardcoded paths
-// ("/youtube", "/spotify", "/nts") instead of a ":source" param. This keeps
-// routing explicit and type-safe while still letting the layout be shared.
-
-const SOURCE_CONFIG: Record<MediaSource, { label: string; accentDot: string; description: string }> = {
-  youtube: {
-    label: "YouTube",
-    accentDot: "bg-red-500",
-    description: "Plays your chosen YouTube video only while you work.",
-  },
-  spotify: {
-    label: "Spotify",
-    accentDot: "bg-green-500",
-    description: "Plays your Spotify music during work and pauses for breaks.",
-  },
-  nts: {
-    label: "NTS Radio",
-    accentDot: "bg-white border border-slate-400",
-    description: "Streams NTS Radio live during work sessions.",
-  },
-};
+// ("/youtube", "/spotify", "/nts", ...) instead of a ":source" param. This
+// keeps routing explicit and type-safe while still letting the layout be shared.
+//
+// Below the session page sit the notification and volume fade settings
+// panels, which are source-independent and so live here rather than in
+// every page.
 
 const SourceLayout: React.FC = () => {
   // Extract the source segment from the pathname: "/youtube/quick" → "youtube"
@@ -98,6 +87,12 @@ const SourceLayout: React.FC = () => {
 
       {/* Active session page */}
       <Outlet />
+
+      {/* Transition alerts (shared by all sources) */}
+      <NotificationSettingsPanel />
+
+      {/* Volume fades around transitions (shared by all sources) */}
+      <FadeSettingsPanel />
     </div>
   );
 };
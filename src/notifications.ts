@@ -0,0 +1,189 @@
+import type {
+  ChimeStyle,
+  NotificationSettings,
+  TimerTransition,
+} from "./types";
+
+// =============================================================================
+// Transition notifications — desktop notifications and synthesised chimes
+// =============================================================================
+//
+// usePomodoro calls notifyTransition() whenever the timer itself moves from
+// work to break, break to work, or finishes the session. Depending on the
+// user's settings that raises a Web Notification (useful when the tab is in
+// the background) and/or plays a short chime. The chime is synthesised with
+// the Web Audio API, so there is no audio asset to fetch.
+//
+// Settings are read from localStorage at notification time, so the timer
+// doesn't need to thread them through React state.
+
+const STORAGE_KEY = "pomodoro-notification-settings";
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  desktop: false,
+  sound: false,
+  chimeStyle: "bell",
+  volume: 0.6,
+  transitions: {
+    workToBreak: true,
+    breakToWork: true,
+    sessionComplete: true,
+  },
+};
+
+export function loadNotificationSettings(): NotificationSettings {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_NOTIFICATION_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved) as Partial<NotificationSettings>;
+    return {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...parsed,
+      transitions: {
+        ...DEFAULT_NOTIFICATION_SETTINGS.transitions,
+        ...parsed.transitions,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to parse notification settings:", error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// --- Desktop notifications ---
+
+export function isNotificationSupported(): boolean {
+  return typeof Notification !== "undefined";
+}
+
+// Must be called from a user gesture (e.g. the settings toggle) for browsers
+// to show the permission prompt. Resolves to whether we may notify.
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === "granted") return true;
+  if (Notification.permission === "denied") return false;
+  return (await Notification.requestPermission()) === "granted";
+}
+
+const TRANSITION_TEXT: Record<TimerTransition, (minutes?: number) => string> = {
+  workToBreak: (m) => (m ? `Time for a ${m} minute break.` : "Time for a break."),
+  breakToWork: (m) => (m ? `Back to work — ${m} minutes.` : "Back to work."),
+  sessionComplete: () => "Session complete. Nice work!",
+};
+
+// --- Chime synthesis ---
+
+// Module-level so every chime shares one AudioContext across the app.
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof AudioContext === "undefined") return null;
+  if (!audioContext) audioContext = new AudioContext();
+  // A context created before any user gesture starts suspended. By the time
+  // a transition fires the user has clicked Start, so resume() is allowed.
+  if (audioContext.state === "suspended") {
+    audioContext.resume().catch(() => {});
+  }
+  return audioContext;
+}
+
+// Note sequences per transition: falling for work→break, rising for
+// break→work, a major arpeggio for session complete. Frequencies in Hz.
+const CHIME_NOTES: Record<TimerTransition, number[]> = {
+  workToBreak: [880, 659.25],
+  breakToWork: [659.25, 880],
+  sessionComplete: [523.25, 659.25, 783.99, 1046.5],
+};
+
+// Per-style voice: oscillator type, note spacing, attack and decay (seconds)
+const CHIME_VOICES: Record<
+  ChimeStyle,
+  { type: OscillatorType; spacing: number; attack: number; decay: number; partial?: number }
+> = {
+  // Sine with an inharmonic overtone — a struck bell
+  bell: { type: "sine", spacing: 0.35, attack: 0.005, decay: 1.6, partial: 2.76 },
+  // Short square beeps
+  digital: { type: "square", spacing: 0.18, attack: 0.005, decay: 0.12 },
+  // Triangle with a slow swell
+  soft: { type: "triangle", spacing: 0.45, attack: 0.12, decay: 0.9 },
+};
+
+export function playChime(
+  transition: TimerTransition,
+  style: ChimeStyle,
+  volume: number,
+): void {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const voice = CHIME_VOICES[style];
+  // Square waves are much louder than sines at the same gain
+  const peak = Math.max(0, Math.min(1, volume)) * (style === "digital" ? 0.15 : 0.4);
+  const start = ctx.currentTime + 0.02;
+
+  CHIME_NOTES[transition].forEach((frequency, i) => {
+    const t = start + i * voice.spacing;
+    const partials = voice.partial ? [1, voice.partial] : [1];
+
+    partials.forEach((ratio, p) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = voice.type;
+      osc.frequency.value = frequency * ratio;
+      // Overtones sit well below the fundamental
+      const level = p === 0 ? peak : peak * 0.25;
+
+      gain.gain.setValueAtTime(0.0001, t);
+      gain.gain.exponentialRampToValueAtTime(Math.max(level, 0.0001), t + voice.attack);
+      gain.gain.exponentialRampToValueAtTime(0.0001, t + voice.attack + voice.decay);
+
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(t);
+      osc.stop(t + voice.attack + voice.decay + 0.05);
+    });
+  });
+}
+
+// --- Entry point for the timer ---
+
+export interface TransitionDetail {
+  // Length of the interval being entered, for the notification text
+  durationMinutes?: number;
+  // Used as the notification title (e.g. "Pomodoro NTS Player")
+  appTitle?: string;
+}
+
+export function notifyTransition(
+  transition: TimerTransition,
+  detail: TransitionDetail = {},
+): void {
+  const settings = loadNotificationSettings();
+  if (!settings.transitions[transition]) return;
+
+  if (settings.sound) {
+    playChime(transition, settings.chimeStyle, settings.volume);
+  }
+
+  if (
+    settings.desktop &&
+    isNotificationSupported() &&
+    Notification.permission === "granted"
+  ) {
+    try {
+      new Notification(detail.appTitle ?? "Pomodoro Player", {
+        body: TRANSITION_TEXT[transition](detail.durationMinutes),
+        icon: "/favicon-96x96.png",
+        // Replace the previous transition's notification instead of stacking
+        tag: "pomodoro-transition",
+      });
+    } catch (error) {
+      // Some platforms (e.g. Android Chrome) only allow notifications from
+      // a service worker and throw here.
+      console.error("Failed to show notification:", error);
+    }
+  }
+}
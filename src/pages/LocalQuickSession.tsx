@@ -0,0 +1,135 @@
+import React from "react";
+import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
+import { useLocalFileProvider } from "../providers/useLocalFileProvider";
+import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import PomodoroSettings from "../components/PomodoroSettings";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { timerShortcuts } from "../hooks/useKeyboardShortcuts";
+import LocalLibrary from "../components/LocalLibrary";
+
+// =============================================================================
+// LocalQuickSession — quick pomodoro with audio files from disk
+// =============================================================================
+//
+// Plays the user's own audio files during work periods and pauses (in place)
+// during breaks. Works fully offline — files never leave the machine.
+
+const LocalQuickSession: React.FC = () => {
+  const local = useLocalFileProvider();
+
+  // What plays during breaks
+  const breakMedia = useBreakMedia("local");
+
+  const pom = usePomodoro({
+    mode: "quick",
+    provider: local.provider,
+    breakProvider: breakMedia.provider,
+    appTitle: "Pomodoro Local Player",
+    persistKey: "local-quick",
+    source: "local",
+  });
+
+  const currentTrack = local.tracks[local.currentIndex];
+
+  // OS media controls: show the current file and route media keys to the timer
+  useMediaSession(pom, currentTrack ? { title: currentTrack.name, subtitle: "Local files" } : null);
+
+  return (
+    <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={pom.resumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
+      <LocalLibrary
+        tracks={local.tracks}
+        currentIndex={local.currentIndex}
+        isPlaying={local.isPlaying}
+        shuffle={local.shuffle}
+        repeat={local.repeat}
+        onPickFiles={local.pickFiles}
+        onPickFolder={local.pickFolder}
+        onSelectTrack={local.selectTrack}
+        onRemoveTrack={local.removeTrack}
+        onClearTracks={local.clearTracks}
+        onShuffleChange={local.setShuffle}
+        onRepeatChange={local.setRepeat}
+      />
+
+      {/* Pomodoro Settings */}
+      <PomodoroSettings
+        workMinutes={pom.workMinutes}
+        breakMinutes={pom.breakMinutes}
+        totalPomodoros={pom.totalPomodoros}
+        longBreakMinutes={pom.longBreakMinutes}
+        longBreakInterval={pom.longBreakInterval}
+        isRunning={pom.isRunning}
+        isWorking={pom.isWorking}
+        onWorkMinutesChange={pom.setWorkMinutes}
+        onBreakMinutesChange={pom.setBreakMinutes}
+        onTotalPomodorosChange={pom.setTotalPomodoros}
+        onLongBreakMinutesChange={pom.setLongBreakMinutes}
+        onLongBreakIntervalChange={pom.setLongBreakInterval}
+        onPreset={pom.setPreset}
+      />
+
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
+      {/* Timer */}
+      <TimerDisplay
+        timeLeft={pom.timeLeft}
+        isRunning={pom.isRunning}
+        isWorking={pom.isWorking}
+        isLongBreak={pom.isLongBreak}
+        timerComplete={pom.timerComplete}
+        progress={pom.progress}
+        currentPomodoro={pom.currentPomodoro}
+        totalPomodoros={pom.totalPomodoros}
+        onToggleTimer={pom.toggleTimer}
+        onResetTimer={pom.resetTimer}
+        onSkipSession={pom.skipSession}
+        isRemote={pom.isRemote}
+        accentProgressClass="bg-amber-500"
+      />
+      <TaskPanel />
+
+      {/* Playback status */}
+      <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mt-2">
+        <h2 className="text-lg font-semibold text-slate-900 mb-2">Now Playing</h2>
+        <div className="flex items-center gap-3">
+          <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${local.isPlaying ? "bg-green-500 animate-pulse" : "bg-slate-300"}`} />
+          <span className="text-slate-700 text-sm truncate">
+            {!currentTrack
+              ? "No files picked"
+              : local.isPlaying
+                ? currentTrack.name
+                : pom.isRunning && !pom.isWorking
+                  ? `On ${pom.isLongBreak ? "long " : ""}break — paused`
+                  : `Paused — ${currentTrack.name}`}
+          </span>
+        </div>
+      </div>
+
+      {/* Hidden audio element — required by useLocalFileProvider */}
+      <audio ref={local.audioRef} onEnded={local.handleEnded} preload="auto" />
+
+      <KeyboardShortcuts shortcuts={timerShortcuts(pom)} />
+    </>
+  );
+};
+
+export default LocalQuickSession;
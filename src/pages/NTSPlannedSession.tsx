@@ -1,9 +1,18 @@
-import React, { useState } from "react";
-import type { IntervalBlock } from "../types";
+import React, { useState, useEffect, useMemo } from "react";
+import type { ImportedPlan, IntervalBlock } from "../types";
 import { formatDuration, flattenIntervals, generateId } from "../utils";
 import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
 import { useNTSProvider } from "../providers/useNTSProvider";
 import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { plannedSessionShortcuts } from "../hooks/useKeyboardShortcuts";
+import PlanFileControls from "../components/PlanFileControls";
+import PlanTemplates from "../components/PlanTemplates";
 
 // =============================================================================
 // NTSPlannedSession — planned interval session with NTS Radio
@@ -24,14 +33,32 @@ const NTSPlannedSession: React.FC = () => {
   // ---- NTS provider ----
   const { provider, audioRef, channel, setChannel } = useNTSProvider();
 
+  // ---- Break media ----
+  const breakMedia = useBreakMedia("nts");
+
   // ---- Pomodoro timer ----
+  // The plan is saved with the session so a resume can rebuild it.
+  const sessionExtras = useMemo(() => ({ intervalBlocks }), [intervalBlocks]);
   const pom = usePomodoro({
     mode: "planned",
     provider,
+    breakProvider: breakMedia.provider,
     intervals: [],
     appTitle: "Pomodoro NTS Player",
+    persistKey: "nts-planned",
+    source: "nts",
+    sessionExtras,
   });
 
+  // OS media controls: show the channel and route media keys to the timer
+  useMediaSession(pom, { title: `NTS ${channel}`, subtitle: "NTS Radio" });
+
+  // Follow the hook's planned-session state, so this page switches phase when
+  // the session is started or cancelled from another tab too.
+  useEffect(() => {
+    setPhase(pom.isPlannedRunning ? "running" : "planning");
+  }, [pom.isPlannedRunning]);
+
   // ---- Interval management ----
   const addIntervalBlock = () => {
     if (newWorkMinutes < 1 || newBreakMinutes < 1 || newRepeat < 1) return;
@@ -68,6 +95,19 @@ const NTSPlannedSession: React.FC = () => {
     setPhase("planning");
   };
 
+  const handleResumeSession = () => {
+    const session = pom.resumeSession();
+    if (!session) return;
+    setIntervalBlocks(session.extras?.intervalBlocks ?? []);
+    setPhase("running");
+  };
+
+  // An imported plan replaces the current blocks. Any YouTube video queue in
+  // the file doesn't apply to this source and is ignored.
+  const handleImportPlan = (plan: ImportedPlan) => {
+    setIntervalBlocks(plan.blocks);
+  };
+
   const flat = flattenIntervals(intervalBlocks);
   const workIntervalCount = flat.filter((i) => i.type === "work").length;
   const totalMinutes = flat.reduce((sum, i) => sum + i.durationMinutes, 0);
@@ -99,9 +139,11 @@ const NTSPlannedSession: React.FC = () => {
           onToggleTimer={pom.toggleTimer}
           onResetTimer={pom.resetTimer}
           onSkipSession={pom.skipSession}
+          isRemote={pom.isRemote}
           onCancelSession={handleCancelSession}
           accentProgressClass="bg-white"
         />
+        <TaskPanel />
 
         {/* Upcoming intervals */}
         {!pom.timerComplete && pom.currentIntervalIndex < pom.flatIntervals.length - 1 && (
@@ -134,6 +176,14 @@ const NTSPlannedSession: React.FC = () => {
         </div>
 
         <audio ref={audioRef} preload="none" />
+
+        <KeyboardShortcuts
+          shortcuts={[
+            ...plannedSessionShortcuts(pom, handleCancelSession),
+            { keys: ["1"], label: "1", description: "Switch to NTS 1", action: () => setChannel(1) },
+            { keys: ["2"], label: "2", description: "Switch to NTS 2", action: () => setChannel(2) },
+          ]}
+        />
       </>
     );
   }
@@ -141,6 +191,14 @@ const NTSPlannedSession: React.FC = () => {
   // ---- Planning phase ----
   return (
     <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={handleResumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
       {/* NTS Channel Selector */}
       <div className="w-full mb-6">
         <div className="bg-white rounded-lg border border-slate-200 p-4">
@@ -172,7 +230,15 @@ const NTSPlannedSession: React.FC = () => {
 
       {/* Interval builder */}
       <div className="w-full mb-8">
-        <h2 className="text-lg font-semibold text-slate-900 mb-4">Plan Your Intervals</h2>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-slate-900">Plan Your Intervals</h2>
+          <PlanFileControls
+            intervalBlocks={intervalBlocks}
+            onImport={handleImportPlan}
+          />
+        </div>
+
+        <PlanTemplates intervalBlocks={intervalBlocks} onLoad={setIntervalBlocks} />
 
         <div className="bg-white rounded-xl border border-slate-200 p-4 mb-4">
           <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
@@ -199,23 +265,6 @@ const NTSPlannedSession: React.FC = () => {
               Add Interval
             </button>
           </div>
-
-          <div className="mt-3 flex gap-3 items-center">
-            <div className="text-xs text-slate-500">Presets:</div>
-            <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white">
-              {[
-                { w: 25, b: 5, r: 4, label: "25/5 ×4" },
-                { w: 45, b: 15, r: 2, label: "45/15 ×2" },
-                { w: 60, b: 30, r: 2, label: "60/30 ×2" },
-              ].map((p) => (
-                <button key={p.label}
-                  onClick={() => { setNewWorkMinutes(p.w); setNewBreakMinutes(p.b); setNewRepeat(p.r); }}
-                  className="text-slate-700 hover:bg-slate-50 px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors">
-                  {p.label}
-                </button>
-              ))}
-            </div>
-          </div>
         </div>
 
         {intervalBlocks.length > 0 && (
@@ -263,6 +312,14 @@ const NTSPlannedSession: React.FC = () => {
         )}
       </div>
 
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
       {/* Start session button */}
       <div className="w-full">
         <button onClick={startSession} disabled={intervalBlocks.length === 0}
@@ -1,8 +1,15 @@
 import React from "react";
 import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
 import { useNTSProvider } from "../providers/useNTSProvider";
 import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
 import PomodoroSettings from "../components/PomodoroSettings";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { timerShortcuts } from "../hooks/useKeyboardShortcuts";
 
 // =============================================================================
 // NTSQuickSession — quick pomodoro with NTS Radio live stream
@@ -15,14 +22,31 @@ import PomodoroSettings from "../components/PomodoroSettings";
 const NTSQuickSession: React.FC = () => {
   const { provider, audioRef, channel, setChannel } = useNTSProvider();
 
+  // What plays during breaks
+  const breakMedia = useBreakMedia("nts");
+
   const pom = usePomodoro({
     mode: "quick",
     provider,
+    breakProvider: breakMedia.provider,
     appTitle: "Pomodoro NTS Player",
+    persistKey: "nts-quick",
+    source: "nts",
   });
 
+  // OS media controls: show the channel and route media keys to the timer
+  useMediaSession(pom, { title: `NTS ${channel}`, subtitle: "NTS Radio" });
+
   return (
     <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={pom.resumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
       {/* NTS Channel Selector */}
       <div className="w-full mb-6">
         <div className="bg-white rounded-lg border border-slate-200 p-4">
@@ -57,19 +81,32 @@ const NTSQuickSession: React.FC = () => {
         workMinutes={pom.workMinutes}
         breakMinutes={pom.breakMinutes}
         totalPomodoros={pom.totalPomodoros}
+        longBreakMinutes={pom.longBreakMinutes}
+        longBreakInterval={pom.longBreakInterval}
         isRunning={pom.isRunning}
         isWorking={pom.isWorking}
         onWorkMinutesChange={pom.setWorkMinutes}
         onBreakMinutesChange={pom.setBreakMinutes}
         onTotalPomodorosChange={pom.setTotalPomodoros}
+        onLongBreakMinutesChange={pom.setLongBreakMinutes}
+        onLongBreakIntervalChange={pom.setLongBreakInterval}
         onPreset={pom.setPreset}
       />
 
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
       {/* Timer */}
       <TimerDisplay
         timeLeft={pom.timeLeft}
         isRunning={pom.isRunning}
         isWorking={pom.isWorking}
+        isLongBreak={pom.isLongBreak}
         timerComplete={pom.timerComplete}
         progress={pom.progress}
         currentPomodoro={pom.currentPomodoro}
@@ -77,8 +114,10 @@ const NTSQuickSession: React.FC = () => {
         onToggleTimer={pom.toggleTimer}
         onResetTimer={pom.resetTimer}
         onSkipSession={pom.skipSession}
+        isRemote={pom.isRemote}
         accentProgressClass="bg-white"
       />
+      <TaskPanel />
 
       {/* Stream status */}
       <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mt-2">
@@ -89,7 +128,7 @@ const NTSQuickSession: React.FC = () => {
             {pom.isRunning && pom.isWorking
               ? `NTS ${channel} — Live`
               : pom.isRunning && !pom.isWorking
-                ? "On break — stream paused"
+                ? `On ${pom.isLongBreak ? "long " : ""}break — stream paused`
                 : "Idle"}
           </span>
         </div>
@@ -100,6 +139,14 @@ const NTSQuickSession: React.FC = () => {
 
       {/* Hidden audio element — required by useNTSProvider */}
       <audio ref={audioRef} preload="none" />
+
+      <KeyboardShortcuts
+        shortcuts={[
+          ...timerShortcuts(pom),
+          { keys: ["1"], label: "1", description: "Switch to NTS 1", action: () => setChannel(1) },
+          { keys: ["2"], label: "2", description: "Switch to NTS 2", action: () => setChannel(2) },
+        ]}
+      />
     </>
   );
 };
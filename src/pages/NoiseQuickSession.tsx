@@ -0,0 +1,105 @@
+import React from "react";
+import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
+import { useNoiseProvider } from "../providers/useNoiseProvider";
+import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import PomodoroSettings from "../components/PomodoroSettings";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { timerShortcuts } from "../hooks/useKeyboardShortcuts";
+import NoiseMixer from "../components/NoiseMixer";
+
+// =============================================================================
+// NoiseQuickSession — quick pomodoro with synthesised ambient noise
+// =============================================================================
+//
+// Fades the user's noise mix in during work periods and out during breaks.
+// Everything is generated in the browser, so this works with no network.
+
+const NoiseQuickSession: React.FC = () => {
+  const noise = useNoiseProvider();
+
+  // What plays during breaks
+  const breakMedia = useBreakMedia("noise");
+
+  const pom = usePomodoro({
+    mode: "quick",
+    provider: noise.provider,
+    breakProvider: breakMedia.provider,
+    appTitle: "Pomodoro Noise Player",
+    persistKey: "noise-quick",
+    source: "noise",
+  });
+
+  // OS media controls: route media keys to the timer
+  useMediaSession(pom, { title: "Ambient noise", subtitle: "Pomodoro Player" });
+
+  return (
+    <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={pom.resumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
+      <NoiseMixer
+        settings={noise.settings}
+        isPlaying={noise.isPlaying}
+        onLevelChange={noise.setLevel}
+        onVolumeChange={noise.setVolume}
+      />
+
+      {/* Pomodoro Settings */}
+      <PomodoroSettings
+        workMinutes={pom.workMinutes}
+        breakMinutes={pom.breakMinutes}
+        totalPomodoros={pom.totalPomodoros}
+        longBreakMinutes={pom.longBreakMinutes}
+        longBreakInterval={pom.longBreakInterval}
+        isRunning={pom.isRunning}
+        isWorking={pom.isWorking}
+        onWorkMinutesChange={pom.setWorkMinutes}
+        onBreakMinutesChange={pom.setBreakMinutes}
+        onTotalPomodorosChange={pom.setTotalPomodoros}
+        onLongBreakMinutesChange={pom.setLongBreakMinutes}
+        onLongBreakIntervalChange={pom.setLongBreakInterval}
+        onPreset={pom.setPreset}
+      />
+
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
+      {/* Timer */}
+      <TimerDisplay
+        timeLeft={pom.timeLeft}
+        isRunning={pom.isRunning}
+        isWorking={pom.isWorking}
+        isLongBreak={pom.isLongBreak}
+        timerComplete={pom.timerComplete}
+        progress={pom.progress}
+        currentPomodoro={pom.currentPomodoro}
+        totalPomodoros={pom.totalPomodoros}
+        onToggleTimer={pom.toggleTimer}
+        onResetTimer={pom.resetTimer}
+        onSkipSession={pom.skipSession}
+        isRemote={pom.isRemote}
+        accentProgressClass="bg-indigo-400"
+      />
+      <TaskPanel />
+
+      <KeyboardShortcuts shortcuts={timerShortcuts(pom)} />
+    </>
+  );
+};
+
+export default NoiseQuickSession;
@@ -0,0 +1,132 @@
+import React from "react";
+import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
+import { useRadioProvider } from "../providers/useRadioProvider";
+import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import PomodoroSettings from "../components/PomodoroSettings";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { timerShortcuts } from "../hooks/useKeyboardShortcuts";
+import RadioStationPicker from "../components/RadioStationPicker";
+
+// =============================================================================
+// RadioQuickSession — quick pomodoro with any internet radio stream
+// =============================================================================
+//
+// Same as NTSQuickSession, but plays whichever saved Icecast/SHOUTcast station
+// the user picked. Live streams carry no track info, so we just show which
+// station is on.
+
+const RadioQuickSession: React.FC = () => {
+  const radio = useRadioProvider();
+
+  // What plays during breaks
+  const breakMedia = useBreakMedia("radio");
+
+  const pom = usePomodoro({
+    mode: "quick",
+    provider: radio.provider,
+    breakProvider: breakMedia.provider,
+    appTitle: "Pomodoro Radio Player",
+    persistKey: "radio-quick",
+    source: "radio",
+  });
+
+  // OS media controls: show the station and route media keys to the timer
+  useMediaSession(pom, radio.selectedStation ? { title: radio.selectedStation.name, subtitle: "Radio" } : null);
+
+  return (
+    <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={pom.resumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
+      <RadioStationPicker
+        stations={radio.stations}
+        selectedStation={radio.selectedStation}
+        onSelectStation={radio.selectStation}
+        onAddStation={radio.addStation}
+        onRenameStation={radio.renameStation}
+        onRemoveStation={radio.removeStation}
+        onImportPlaylist={radio.importPlaylist}
+      />
+
+      {/* Pomodoro Settings */}
+      <PomodoroSettings
+        workMinutes={pom.workMinutes}
+        breakMinutes={pom.breakMinutes}
+        totalPomodoros={pom.totalPomodoros}
+        longBreakMinutes={pom.longBreakMinutes}
+        longBreakInterval={pom.longBreakInterval}
+        isRunning={pom.isRunning}
+        isWorking={pom.isWorking}
+        onWorkMinutesChange={pom.setWorkMinutes}
+        onBreakMinutesChange={pom.setBreakMinutes}
+        onTotalPomodorosChange={pom.setTotalPomodoros}
+        onLongBreakMinutesChange={pom.setLongBreakMinutes}
+        onLongBreakIntervalChange={pom.setLongBreakInterval}
+        onPreset={pom.setPreset}
+      />
+
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
+      {/* Timer */}
+      <TimerDisplay
+        timeLeft={pom.timeLeft}
+        isRunning={pom.isRunning}
+        isWorking={pom.isWorking}
+        isLongBreak={pom.isLongBreak}
+        timerComplete={pom.timerComplete}
+        progress={pom.progress}
+        currentPomodoro={pom.currentPomodoro}
+        totalPomodoros={pom.totalPomodoros}
+        onToggleTimer={pom.toggleTimer}
+        onResetTimer={pom.resetTimer}
+        onSkipSession={pom.skipSession}
+        isRemote={pom.isRemote}
+        accentProgressClass="bg-sky-500"
+      />
+      <TaskPanel />
+
+      {/* Stream status */}
+      <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mt-2">
+        <h2 className="text-lg font-semibold text-slate-900 mb-2">Stream Status</h2>
+        <div className="flex items-center gap-3">
+          <span className={`w-2.5 h-2.5 rounded-full ${pom.isRunning && pom.isWorking ? "bg-green-500 animate-pulse" : "bg-slate-300"}`} />
+          <span className="text-slate-700 text-sm">
+            {!radio.selectedStation
+              ? "No station selected"
+              : pom.isRunning && pom.isWorking
+                ? `${radio.selectedStation.name} — Live`
+                : pom.isRunning && !pom.isWorking
+                  ? `On ${pom.isLongBreak ? "long " : ""}break — stream paused`
+                  : "Idle"}
+          </span>
+        </div>
+        <p className="text-xs text-slate-400 mt-3">
+          Radio streams are live — audio reconnects to the live edge each work period.
+        </p>
+      </div>
+
+      {/* Hidden audio element — required by useRadioProvider */}
+      <audio ref={radio.audioRef} preload="none" />
+
+      <KeyboardShortcuts shortcuts={timerShortcuts(pom)} />
+    </>
+  );
+};
+
+export default RadioQuickSession;
@@ -1,9 +1,20 @@
-import React, { useState } from "react";
-import type { IntervalBlock } from "../types";
+import React, { useState, useEffect, useMemo } from "react";
+import type { ImportedPlan, IntervalBlock } from "../types";
 import { formatDuration, flattenIntervals, generateId } from "../utils";
 import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
 import { useSpotifyProvider } from "../providers/useSpotifyProvider";
 import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import SpotifyDevicePicker from "../components/SpotifyDevicePicker";
+import SpotifyContextPicker from "../components/SpotifyContextPicker";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { plannedSessionShortcuts } from "../hooks/useKeyboardShortcuts";
+import PlanFileControls from "../components/PlanFileControls";
+import PlanTemplates from "../components/PlanTemplates";
 
 // =============================================================================
 // SpotifyPlannedSession — planned interval session with Spotify playback
@@ -35,16 +46,54 @@ const SpotifyPlannedSession: React.FC = () => {
     playbackState,
     handleLogin,
     handleLogout,
+    devices,
+    selectedDeviceId,
+    selectDevice,
+    refreshDevices,
+    browserPlayerEnabled,
+    setBrowserPlayerEnabled,
+    browserPlayerStatus,
+    browserDeviceId,
+    playbackContext,
+    selectContext,
+    getUserPlaylists,
+    searchCatalog,
+    breakProvider,
+    breakContext,
+    selectBreakContext,
   } = useSpotifyProvider();
 
+  // ---- Break media ----
+  const breakMedia = useBreakMedia("spotify", breakProvider);
+
   // ---- Pomodoro timer ----
+  // The plan is saved with the session so a resume can rebuild it.
+  const sessionExtras = useMemo(() => ({ intervalBlocks }), [intervalBlocks]);
   const pom = usePomodoro({
     mode: "planned",
     provider: token ? provider : null,
+    breakProvider: breakMedia.provider,
     intervals: [],
     appTitle: "Pomodoro Spotify Player",
+    persistKey: "spotify-planned",
+    source: "spotify",
+    sessionExtras,
   });
 
+  // OS media controls: show the current track and route media keys to the timer
+  const track = playbackState?.item;
+  useMediaSession(pom, track ? {
+    title: track.name,
+    subtitle: track.artists.map((a) => a.name).join(", "),
+    artwork: track.album?.images[0]?.url,
+  } : null);
+
+  // Follow the hook's planned-session state, so this page switches phase when
+  // the session is started or cancelled from another tab too.
+  useEffect(() => {
+    setPhase(pom.isPlannedRunning ? "running" : "planning");
+  }, [pom.isPlannedRunning]);
+
   // ---- Interval management ----
   const addIntervalBlock = () => {
     if (newWorkMinutes < 1 || newBreakMinutes < 1 || newRepeat < 1) return;
@@ -81,6 +130,19 @@ const SpotifyPlannedSession: React.FC = () => {
     setPhase("planning");
   };
 
+  const handleResumeSession = () => {
+    const session = pom.resumeSession();
+    if (!session) return;
+    setIntervalBlocks(session.extras?.intervalBlocks ?? []);
+    setPhase("running");
+  };
+
+  // An imported plan replaces the current blocks. Any YouTube video queue in
+  // the file doesn't apply to this source and is ignored.
+  const handleImportPlan = (plan: ImportedPlan) => {
+    setIntervalBlocks(plan.blocks);
+  };
+
   const flat = flattenIntervals(intervalBlocks);
   const workIntervalCount = flat.filter((i) => i.type === "work").length;
   const totalMinutes = flat.reduce((sum, i) => sum + i.durationMinutes, 0);
@@ -143,9 +205,11 @@ const SpotifyPlannedSession: React.FC = () => {
           onToggleTimer={pom.toggleTimer}
           onResetTimer={pom.resetTimer}
           onSkipSession={pom.skipSession}
+          isRemote={pom.isRemote}
           onCancelSession={handleCancelSession}
           accentProgressClass="bg-green-500"
         />
+        <TaskPanel />
 
         {/* Upcoming intervals */}
         {!pom.timerComplete && pom.currentIntervalIndex < pom.flatIntervals.length - 1 && (
@@ -187,6 +251,8 @@ const SpotifyPlannedSession: React.FC = () => {
             </p>
           )}
         </div>
+
+        <KeyboardShortcuts shortcuts={plannedSessionShortcuts(pom, handleCancelSession)} />
       </>
     );
   }
@@ -200,6 +266,14 @@ const SpotifyPlannedSession: React.FC = () => {
         </div>
       )}
 
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={handleResumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
       {/* Account info */}
       <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mb-6">
         <div className="flex items-center justify-between">
@@ -219,9 +293,38 @@ const SpotifyPlannedSession: React.FC = () => {
         </div>
       </div>
 
+      {/* Playback device */}
+      <SpotifyDevicePicker
+        devices={devices}
+        selectedDeviceId={selectedDeviceId}
+        activeDeviceId={playbackState?.device?.id ?? null}
+        onSelectDevice={selectDevice}
+        onRefresh={refreshDevices}
+        browserDeviceId={browserDeviceId}
+        browserPlayerEnabled={browserPlayerEnabled}
+        browserPlayerStatus={browserPlayerStatus}
+        onToggleBrowserPlayer={setBrowserPlayerEnabled}
+      />
+
+      {/* Work music */}
+      <SpotifyContextPicker
+        selectedContext={playbackContext}
+        onSelectContext={selectContext}
+        getUserPlaylists={getUserPlaylists}
+        searchCatalog={searchCatalog}
+      />
+
       {/* Interval builder */}
       <div className="w-full mb-8">
-        <h2 className="text-lg font-semibold text-slate-900 mb-4">Plan Your Intervals</h2>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-slate-900">Plan Your Intervals</h2>
+          <PlanFileControls
+            intervalBlocks={intervalBlocks}
+            onImport={handleImportPlan}
+          />
+        </div>
+
+        <PlanTemplates intervalBlocks={intervalBlocks} onLoad={setIntervalBlocks} />
 
         <div className="bg-white rounded-xl border border-slate-200 p-4 mb-4">
           <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
@@ -248,23 +351,6 @@ const SpotifyPlannedSession: React.FC = () => {
               Add Interval
             </button>
           </div>
-
-          <div className="mt-3 flex gap-3 items-center">
-            <div className="text-xs text-slate-500">Presets:</div>
-            <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white">
-              {[
-                { w: 25, b: 5, r: 4, label: "25/5 ×4" },
-                { w: 45, b: 15, r: 2, label: "45/15 ×2" },
-                { w: 60, b: 30, r: 2, label: "60/30 ×2" },
-              ].map((p) => (
-                <button key={p.label}
-                  onClick={() => { setNewWorkMinutes(p.w); setNewBreakMinutes(p.b); setNewRepeat(p.r); }}
-                  className="text-slate-700 hover:bg-slate-50 px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors">
-                  {p.label}
-                </button>
-              ))}
-            </div>
-          </div>
         </div>
 
         {intervalBlocks.length > 0 && (
@@ -312,6 +398,24 @@ const SpotifyPlannedSession: React.FC = () => {
         )}
       </div>
 
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+      {breakMedia.settings.kind === "spotify" && (
+        <SpotifyContextPicker
+          title="Break music"
+          emptyText="Nothing chosen — work music just pauses during breaks."
+          selectedContext={breakContext}
+          onSelectContext={selectBreakContext}
+          getUserPlaylists={getUserPlaylists}
+          searchCatalog={searchCatalog}
+        />
+      )}
+
       {/* Start session button */}
       <div className="w-full">
         <button onClick={startSession} disabled={intervalBlocks.length === 0}
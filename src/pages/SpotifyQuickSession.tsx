@@ -1,8 +1,17 @@
 import React from "react";
 import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
 import { useSpotifyProvider } from "../providers/useSpotifyProvider";
 import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import SpotifyDevicePicker from "../components/SpotifyDevicePicker";
+import SpotifyContextPicker from "../components/SpotifyContextPicker";
 import PomodoroSettings from "../components/PomodoroSettings";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { timerShortcuts } from "../hooks/useKeyboardShortcuts";
 
 // =============================================================================
 // SpotifyQuickSession — Quick pomodoro with Spotify playback control
@@ -10,7 +19,7 @@ import PomodoroSettings from "../components/PomodoroSettings";
 //
 // Connects to Spotify via PKCE OAuth, then uses the Spotify Web API to
 // play during work intervals and pause during breaks. The user needs
-// Spotify Premium and an active device.
+// Spotify Premium; music plays in the browser itself or on a Spotify device.
 
 const SpotifyQuickSession: React.FC = () => {
   const {
@@ -22,14 +31,43 @@ const SpotifyQuickSession: React.FC = () => {
     playbackState,
     handleLogin,
     handleLogout,
+    devices,
+    selectedDeviceId,
+    selectDevice,
+    refreshDevices,
+    browserPlayerEnabled,
+    setBrowserPlayerEnabled,
+    browserPlayerStatus,
+    browserDeviceId,
+    playbackContext,
+    selectContext,
+    getUserPlaylists,
+    searchCatalog,
+    breakProvider,
+    breakContext,
+    selectBreakContext,
   } = useSpotifyProvider();
 
+  // What plays during breaks
+  const breakMedia = useBreakMedia("spotify", breakProvider);
+
   const pom = usePomodoro({
     mode: "quick",
     provider: token ? provider : null,
+    breakProvider: breakMedia.provider,
     appTitle: "Pomodoro Spotify Player",
+    persistKey: "spotify-quick",
+    source: "spotify",
   });
 
+  // OS media controls: show the current track and route media keys to the timer
+  const track = playbackState?.item;
+  useMediaSession(pom, track ? {
+    title: track.name,
+    subtitle: track.artists.map((a) => a.name).join(", "),
+    artwork: track.album?.images[0]?.url,
+  } : null);
+
   // ---- Render: Not connected ----
   if (!token) {
     return (
@@ -79,6 +117,14 @@ const SpotifyQuickSession: React.FC = () => {
         </div>
       )}
 
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={pom.resumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
       {/* Account info */}
       <div className="w-full bg-white p-4 rounded-lg border border-slate-200 mb-6">
         <div className="flex items-center justify-between">
@@ -104,24 +150,68 @@ const SpotifyQuickSession: React.FC = () => {
         </div>
       </div>
 
+      {/* Playback device */}
+      <SpotifyDevicePicker
+        devices={devices}
+        selectedDeviceId={selectedDeviceId}
+        activeDeviceId={playbackState?.device?.id ?? null}
+        onSelectDevice={selectDevice}
+        onRefresh={refreshDevices}
+        browserDeviceId={browserDeviceId}
+        browserPlayerEnabled={browserPlayerEnabled}
+        browserPlayerStatus={browserPlayerStatus}
+        onToggleBrowserPlayer={setBrowserPlayerEnabled}
+      />
+
+      {/* Work music */}
+      <SpotifyContextPicker
+        selectedContext={playbackContext}
+        onSelectContext={selectContext}
+        getUserPlaylists={getUserPlaylists}
+        searchCatalog={searchCatalog}
+      />
+
       {/* Pomodoro settings */}
       <PomodoroSettings
         workMinutes={pom.workMinutes}
         breakMinutes={pom.breakMinutes}
         totalPomodoros={pom.totalPomodoros}
+        longBreakMinutes={pom.longBreakMinutes}
+        longBreakInterval={pom.longBreakInterval}
         isRunning={pom.isRunning}
         isWorking={pom.isWorking}
         onWorkMinutesChange={pom.setWorkMinutes}
         onBreakMinutesChange={pom.setBreakMinutes}
         onTotalPomodorosChange={pom.setTotalPomodoros}
+        onLongBreakMinutesChange={pom.setLongBreakMinutes}
+        onLongBreakIntervalChange={pom.setLongBreakInterval}
         onPreset={pom.setPreset}
       />
 
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+      {breakMedia.settings.kind === "spotify" && (
+        <SpotifyContextPicker
+          title="Break music"
+          emptyText="Nothing chosen — work music just pauses during breaks."
+          selectedContext={breakContext}
+          onSelectContext={selectBreakContext}
+          getUserPlaylists={getUserPlaylists}
+          searchCatalog={searchCatalog}
+        />
+      )}
+
       {/* Timer display */}
       <TimerDisplay
         timeLeft={pom.timeLeft}
         isRunning={pom.isRunning}
         isWorking={pom.isWorking}
+        isLongBreak={pom.isLongBreak}
         timerComplete={pom.timerComplete}
         progress={pom.progress}
         currentPomodoro={pom.currentPomodoro}
@@ -129,9 +219,11 @@ const SpotifyQuickSession: React.FC = () => {
         onToggleTimer={pom.toggleTimer}
         onResetTimer={pom.resetTimer}
         onSkipSession={pom.skipSession}
+        isRemote={pom.isRemote}
         workMinutes={pom.workMinutes}
         accentProgressClass="bg-green-500"
       />
+      <TaskPanel />
 
       {/* Now Playing */}
       <div className="w-full bg-white p-4 rounded-lg border border-slate-200">
@@ -177,10 +269,13 @@ const SpotifyQuickSession: React.FC = () => {
       {/* Instructions */}
       <div className="mt-6 p-4 bg-slate-50 rounded-lg border border-slate-200 w-full">
         <p className="text-slate-700">
-          <span className="font-semibold">How it works:</span> Start playing music on any Spotify device,
-          then use the Pomodoro timer. Music plays during work intervals and pauses during breaks.
+          <span className="font-semibold">How it works:</span> Music plays right here in the browser,
+          or on any Spotify device you pick above. Start the Pomodoro timer: music plays during
+          work intervals and pauses during breaks.
         </p>
       </div>
+
+      <KeyboardShortcuts shortcuts={timerShortcuts(pom)} />
     </>
   );
 };
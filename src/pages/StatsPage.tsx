@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { IntervalLogEntry } from "../types";
+import { formatDuration } from "../utils";
+import { SOURCE_CONFIG } from "../sources";
+import {
+  loadIntervals,
+  clearIntervals,
+  summarizeHistory,
+  historyStartTime,
+  type DayBucket,
+} from "../sessionHistory";
+
+// =============================================================================
+// StatsPage — focus statistics from the session history log
+// =============================================================================
+//
+// Reads the last few weeks of logged intervals from IndexedDB and shows focus
+// minutes per day and per week, how often work intervals are completed vs
+// skipped, and which sources the time was spent with. Everything is computed
+// on the fly by summarizeHistory — nothing is stored besides the raw log.
+
+const DAYS = 7;
+const WEEKS = 8;
+
+const formatPercent = (rate: number | null): string =>
+  rate === null ? "—" : `${Math.round(rate * 100)}%`;
+
+const formatMinutes = (minutes: number): string => formatDuration(Math.round(minutes));
+
+// Simple vertical bar chart; bars are scaled to the largest bucket.
+const BarChart: React.FC<{
+  buckets: DayBucket[];
+  label: (bucket: DayBucket, index: number) => string;
+}> = ({ buckets, label }) => {
+  const max = Math.max(1, ...buckets.map((b) => b.focusMinutes));
+  return (
+    <div className="flex items-end gap-2 h-40">
+      {buckets.map((bucket, i) => (
+        <div key={bucket.start} className="flex-1 flex flex-col items-center justify-end h-full gap-1.5">
+          <span className="text-[11px] font-mono text-slate-500">
+            {bucket.focusMinutes > 0 ? formatMinutes(bucket.focusMinutes) : ""}
+          </span>
+          <div
+            className="w-full bg-slate-900 rounded-t-sm min-h-[2px]"
+            style={{ height: `${(bucket.focusMinutes / max) * 100}%` }}
+            title={`${formatMinutes(bucket.focusMinutes)} focus`}
+          />
+          <span className="text-xs text-slate-500 whitespace-nowrap">{label(bucket, i)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatsPage: React.FC = () => {
+  const [entries, setEntries] = useState<IntervalLogEntry[] | null>(null);
+  // Captured once so the buckets don't shift while the page is open
+  const [now] = useState(() => Date.now());
+
+  useEffect(() => {
+    loadIntervals(historyStartTime(now, DAYS, WEEKS)).then(setEntries);
+  }, [now]);
+
+  const handleClear = async () => {
+    if (!confirm("Delete all session history? This cannot be undone.")) return;
+    await clearIntervals();
+    setEntries([]);
+  };
+
+  const stats = entries ? summarizeHistory(entries, now, DAYS, WEEKS) : null;
+
+  return (
+    <div className="flex flex-col items-center px-6 py-8 max-w-3xl mx-auto my-8">
+      <Link
+        to="/"
+        className="self-start mb-4 text-sm text-slate-500 hover:text-slate-700 transition-colors flex items-center gap-1"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" />
+        </svg>
+        All sources
+      </Link>
+
+      <div className="w-full mb-8">
+        <h1 className="text-2xl font-bold text-slate-900 tracking-tight">Statistics</h1>
+        <p className="mt-1 text-sm text-slate-500">
+          Based on the intervals you finished or skipped over the last {WEEKS} weeks.
+        </p>
+      </div>
+
+      {!stats ? (
+        <div className="text-slate-400 text-sm py-12">Loading…</div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 w-full mb-6">
+            {[
+              { label: "Today", value: formatMinutes(stats.todayFocusMinutes) },
+              { label: "This week", value: formatMinutes(stats.weekFocusMinutes) },
+              { label: "Completion rate", value: formatPercent(stats.completionRate) },
+              { label: "Skip rate", value: formatPercent(stats.skipRate) },
+            ].map((card) => (
+              <div key={card.label} className="bg-white rounded-lg border border-slate-200 p-4">
+                <div className="text-xs text-slate-500 font-medium">{card.label}</div>
+                <div className="text-2xl font-semibold text-slate-900 mt-1">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Daily */}
+          <div className="w-full bg-white rounded-lg border border-slate-200 p-4 mb-6">
+            <h2 className="text-lg font-semibold text-slate-900 mb-4">Focus per day</h2>
+            <BarChart
+              buckets={stats.daily}
+              label={(b, i) =>
+                i === stats.daily.length - 1
+                  ? "Today"
+                  : new Date(b.start).toLocaleDateString(undefined, { weekday: "short" })
+              }
+            />
+          </div>
+
+          {/* Weekly */}
+          <div className="w-full bg-white rounded-lg border border-slate-200 p-4 mb-6">
+            <h2 className="text-lg font-semibold text-slate-900 mb-4">Focus per week</h2>
+            <BarChart
+              buckets={stats.weekly}
+              label={(b) =>
+                new Date(b.start).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+              }
+            />
+          </div>
+
+          {/* Per source */}
+          <div className="w-full bg-white rounded-lg border border-slate-200 p-4 mb-6">
+            <h2 className="text-lg font-semibold text-slate-900 mb-3">By source</h2>
+            {stats.perSource.length > 0 ? (
+              <div className="space-y-2">
+                {stats.perSource.map((s) => (
+                  <div key={s.source} className="flex items-center gap-3 text-sm">
+                    <span className={`w-2.5 h-2.5 rounded-full ${SOURCE_CONFIG[s.source]?.accentDot ?? "bg-slate-300"}`} />
+                    <span className="flex-1 text-slate-900">{SOURCE_CONFIG[s.source]?.label ?? s.source}</span>
+                    <span className="text-slate-500">
+                      {s.workIntervals} work interval{s.workIntervals !== 1 ? "s" : ""}
+                    </span>
+                    <span className="w-20 text-right font-mono text-slate-700">
+                      {formatMinutes(s.focusMinutes)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-6 text-slate-400 text-sm">
+                No focus time logged yet — finish a work interval to see it here.
+              </div>
+            )}
+          </div>
+
+          <p className="w-full text-xs text-slate-400 mb-4">
+            Completion rate is the share of work intervals that ran to the end.
+            Skip rate counts skipped work and break intervals alike.
+          </p>
+
+          {entries && entries.length > 0 && (
+            <button
+              onClick={handleClear}
+              className="self-start text-sm text-slate-500 hover:text-red-600 transition-colors cursor-pointer"
+            >
+              Clear history
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsPage;
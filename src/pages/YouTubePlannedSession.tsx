@@ -1,22 +1,44 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import type {
   YouTubePlayer,
   YouTubeWindow,
   VideoHistoryItem,
   IntervalBlock,
+  ImportedPlan,
   QueuedVideo,
+  VideoSegment,
 } from "../types";
 import {
   formatDuration,
   flattenIntervals,
   generateId,
   fetchVideoData,
+  fetchPlaylistVideoIds,
+  playlistVideoUrl,
+  extractStartSeconds,
+  toVideoRequest,
+  switchVideo,
   loadYouTubeApi,
+  fadeYouTubeVolume,
 } from "../utils";
+import { fadeLevel } from "../fadeSettings";
 import { usePomodoro } from "../hooks/usePomodoro";
-import { useVideoHistory } from "../useVideoHistory";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
+import { useFadeSettings } from "../hooks/useFadeSettings";
+import { useVideoHistory, resumablePosition } from "../useVideoHistory";
+import { useVideoPositionTracking } from "../hooks/useVideoPositionTracking";
 import VideoInput from "../components/VideoInput";
+import VideoSegmentFields from "../components/VideoSegmentFields";
+import VideoResumePrompt from "../components/VideoResumePrompt";
 import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { plannedSessionShortcuts } from "../hooks/useKeyboardShortcuts";
+import PlanFileControls from "../components/PlanFileControls";
+import PlanTemplates from "../components/PlanTemplates";
 
 declare const window: YouTubeWindow;
 
@@ -43,30 +65,91 @@ const YouTubePlannedSession: React.FC = () => {
 
   // ---- Video queue (planning phase) ----
   const [videoQueue, setVideoQueue] = useState<QueuedVideo[]>([]);
+  const [currentVideoIndex, setCurrentVideoIndex] = useState(0);
+  const [loadingPlaylist, setLoadingPlaylist] = useState(false);
+
+  // ---- Break media ----
+  const breakMedia = useBreakMedia("youtube");
 
   // ---- Pomodoro timer (planned mode) ----
   // We pass an empty intervals array during planning, and the real flattened
-  // intervals when the user starts the session.
+  // intervals when the user starts the session. The plan, queue and queue
+  // position are saved with the session so a resume can rebuild them.
+  const sessionExtras = useMemo(
+    () => ({ intervalBlocks, videoQueue, currentVideoIndex }),
+    [intervalBlocks, videoQueue, currentVideoIndex],
+  );
   const pom = usePomodoro({
     mode: "planned",
     provider: null, // We handle video sync manually for the playlist
+    breakProvider: breakMedia.provider,
     intervals: [],
     appTitle: "Pomodoro YouTube Player",
+    persistKey: "youtube-planned",
+    source: "youtube",
+    sessionExtras,
   });
 
+  // OS media controls: show the current queue video and route media keys to the timer
+  const currentVideo = videoQueue[currentVideoIndex];
+  useMediaSession(pom, currentVideo ? {
+    title: currentVideo.title ?? "YouTube video",
+    subtitle: "YouTube",
+    artwork: currentVideo.thumbnail,
+  } : null);
+
   // ---- YouTube player ----
   const [apiLoaded, setApiLoaded] = useState(false);
-  const [currentVideoIndex, setCurrentVideoIndex] = useState(0);
   const playerRef = useRef<YouTubePlayer | null>(null);
   const playerContainerRef = useRef<HTMLDivElement | null>(null);
   const programmaticChangeRef = useRef(false);
   const isRunningRef = useRef(false);
   const currentVideoIndexRef = useRef(0);
   const videoQueueRef = useRef<QueuedVideo[]>([]);
+  // The player's onStateChange closure is created once, so it reads the
+  // current toggle (local, or forwarded to another tab) through a ref.
+  const toggleTimerRef = useRef(pom.toggleTimer);
 
   // ---- Video history ----
-  const { videoHistory, addToHistory, removeFromHistory, clearHistory } =
-    useVideoHistory();
+  const {
+    videoHistory,
+    addToHistory,
+    removeFromHistory,
+    clearHistory,
+    savePosition,
+    savePositionNow,
+  } = useVideoHistory();
+
+  // ---- Resume positions ----
+  // Whenever a queue video comes up during the session, offer to continue
+  // it from where it was left last time (read when it comes up, so the
+  // position saved while it plays doesn't bring the offer back — the
+  // history is read through a ref for that reason).
+  useVideoPositionTracking(playerRef, savePosition, savePositionNow);
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+  const videoHistoryRef = useRef(videoHistory);
+  useEffect(() => { videoHistoryRef.current = videoHistory; }, [videoHistory]);
+  const currentVideoId = phase === "running" ? currentVideo?.id : undefined;
+  const segmentStart = currentVideo?.startSeconds;
+  const segmentEnd = currentVideo?.endSeconds;
+  useEffect(() => {
+    setResumeAt(currentVideoId
+      ? resumablePosition(
+          videoHistoryRef.current.find((item) => item.id === currentVideoId),
+          { startSeconds: segmentStart, endSeconds: segmentEnd },
+        )
+      : null);
+  }, [currentVideoId, currentVideoIndex, segmentStart, segmentEnd]);
+
+  const handleResumeVideo = () => {
+    if (playerRef.current?.getPlayerState && currentVideo && resumeAt !== null) {
+      switchVideo(
+        playerRef.current,
+        toVideoRequest(currentVideo.id, { ...currentVideo, startSeconds: resumeAt }),
+      );
+    }
+    setResumeAt(null);
+  };
 
   // ---- YouTube API loading ----
   useEffect(() => {
@@ -77,6 +160,15 @@ const YouTubePlannedSession: React.FC = () => {
   useEffect(() => { isRunningRef.current = pom.isRunning; }, [pom.isRunning]);
   useEffect(() => { currentVideoIndexRef.current = currentVideoIndex; }, [currentVideoIndex]);
   useEffect(() => { videoQueueRef.current = videoQueue; }, [videoQueue]);
+  useEffect(() => { toggleTimerRef.current = pom.toggleTimer; }, [pom.toggleTimer]);
+
+  // Follow the hook's planned-session state, so this page switches phase when
+  // the session is started or cancelled from another tab too. The player's
+  // DOM node goes away with the running phase, so drop our handle to it.
+  useEffect(() => {
+    setPhase(pom.isPlannedRunning ? "running" : "planning");
+    if (!pom.isPlannedRunning) playerRef.current = null;
+  }, [pom.isPlannedRunning]);
 
   // ---- Player resize ----
   const resizePlayer = () => {
@@ -93,39 +185,67 @@ const YouTubePlannedSession: React.FC = () => {
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
+  // ---- Queue advance ----
+  // Moves to the next video (wrapping around). `play` loads it playing;
+  // otherwise it's only cued, e.g. when skipping ahead during a break.
+  const advanceQueue = (player: YouTubePlayer, play: boolean) => {
+    const queue = videoQueueRef.current;
+    if (queue.length === 0) return;
+    const nextIdx = (currentVideoIndexRef.current + 1) % queue.length;
+    setCurrentVideoIndex(nextIdx);
+    const next = toVideoRequest(queue[nextIdx].id, queue[nextIdx]);
+    if (play) {
+      player.loadVideoById(next);
+    } else {
+      player.cueVideoById(next);
+    }
+  };
+
+  // N shortcut. Flagged as programmatic so the player's own state changes
+  // don't toggle the timer.
+  const skipToNextVideo = () => {
+    if (pom.isRemote || !playerRef.current) return;
+    programmaticChangeRef.current = true;
+    advanceQueue(playerRef.current, pom.isRunning && pom.currentInterval?.type === "work");
+    setTimeout(() => { programmaticChangeRef.current = false; }, 100);
+  };
+
   // ---- Create YouTube player when running phase starts ----
   useEffect(() => {
     if (phase !== "running" || !apiLoaded || videoQueue.length === 0) return;
 
-    const firstVideoId = videoQueue[0].id;
+    // Usually 0, but a resumed session picks up at its saved queue position
+    const firstVideo = videoQueue[currentVideoIndex] ?? videoQueue[0];
 
     if (playerRef.current) {
-      playerRef.current.loadVideoById(firstVideoId);
+      playerRef.current.loadVideoById(toVideoRequest(firstVideo.id, firstVideo));
       resizePlayer();
     } else {
       const timeout = setTimeout(() => {
         playerRef.current = new window.YT.Player("yt-player-planned", {
-          videoId: firstVideoId,
-          playerVars: { autoplay: 0, controls: 1, rel: 0 },
+          videoId: firstVideo.id,
+          playerVars: {
+            autoplay: 0,
+            controls: 1,
+            rel: 0,
+            start: firstVideo.startSeconds,
+            end: firstVideo.endSeconds,
+          },
           events: {
             onReady: () => resizePlayer(),
             onStateChange: (event) => {
-              // Auto-advance playlist when video ends
+              // Auto-advance playlist when the video (or its segment) ends.
+              // A one-video queue wraps to itself, looping the segment.
               if (event.data === 0) {
-                const queue = videoQueueRef.current;
-                if (queue.length > 0) {
-                  const nextIdx = (currentVideoIndexRef.current + 1) % queue.length;
-                  setCurrentVideoIndex(nextIdx);
-                  event.target.loadVideoById(queue[nextIdx].id);
-                }
+                advanceQueue(event.target, true);
               }
               // Bidirectional sync with timer
               if (!programmaticChangeRef.current) {
                 if (event.data === 1 && !isRunningRef.current) {
-                  pom.toggleTimer();
+                  toggleTimerRef.current();
                 }
                 if (event.data === 2 && isRunningRef.current) {
-                  pom.toggleTimer();
+                  toggleTimerRef.current();
                 }
               }
             },
@@ -140,18 +260,35 @@ const YouTubePlannedSession: React.FC = () => {
   // ---- Sync video playback with timer state ----
   const isWorkInterval = pom.currentInterval?.type === "work";
 
+  // ---- Volume fades ----
+  // usePomodoro fades providers that have a setVolume; this page drives its
+  // player itself, so it follows the same fadeLevel here. This runs before
+  // the sync below, so a work interval starts silent, and the volume is
+  // restored there once the video has paused.
+  const { settings: fadeSettings } = useFadeSettings();
+  const baseVolumeRef = useRef<number | null>(null);
+  const fading = phase === "running" && !pom.isRemote && isWorkInterval && pom.isRunning;
+  const { sessionTotalSeconds, timeLeft } = pom;
+  useEffect(() => {
+    if (!fading || !playerRef.current?.setVolume) return;
+    const level = fadeLevel(sessionTotalSeconds - timeLeft, timeLeft, fadeSettings);
+    fadeYouTubeVolume(playerRef.current, level, baseVolumeRef);
+  }, [fading, sessionTotalSeconds, timeLeft, fadeSettings]);
+
+  // A remote-control tab leaves its player alone — the owning tab plays.
   useEffect(() => {
-    if (phase !== "running") return;
+    if (phase !== "running" || pom.isRemote) return;
     if (playerRef.current?.playVideo) {
       programmaticChangeRef.current = true;
       if (isWorkInterval && pom.isRunning) {
         playerRef.current.playVideo();
       } else {
         playerRef.current.pauseVideo();
+        fadeYouTubeVolume(playerRef.current, 1, baseVolumeRef);
       }
       setTimeout(() => { programmaticChangeRef.current = false; }, 100);
     }
-  }, [isWorkInterval, pom.isRunning, phase]);
+  }, [isWorkInterval, pom.isRunning, pom.isRemote, phase]);
 
   // ---- Interval block management ----
 
@@ -182,12 +319,18 @@ const YouTubePlannedSession: React.FC = () => {
 
   // ---- Video queue management ----
 
+  // A ?t= in the URL becomes the video's start point
   const addVideoToQueue = async (videoId: string, url: string) => {
     const { title, thumbnail } = await fetchVideoData(videoId);
-    setVideoQueue((prev) => [...prev, { id: videoId, url, title, thumbnail }]);
+    const startSeconds = extractStartSeconds(url);
+    setVideoQueue((prev) => [...prev, { id: videoId, url, title, thumbnail, startSeconds }]);
     await addToHistory(videoId, url);
   };
 
+  const setVideoSegment = (index: number, segment: VideoSegment) => {
+    setVideoQueue((prev) => prev.map((v, i) => (i === index ? { ...v, ...segment } : v)));
+  };
+
   const removeVideoFromQueue = (index: number) => {
     setVideoQueue((prev) => prev.filter((_, i) => i !== index));
   };
@@ -202,18 +345,47 @@ const YouTubePlannedSession: React.FC = () => {
     });
   };
 
+  // Fetches titles/thumbnails for queue entries that only have an ID
+  const fillMissingVideoData = (videos: QueuedVideo[]) => {
+    videos.forEach(async (video) => {
+      if (video.title) return;
+      const { title, thumbnail } = await fetchVideoData(video.id);
+      setVideoQueue((prev) =>
+        prev.map((v) => (v.id === video.id && !v.title ? { ...v, title, thumbnail } : v)),
+      );
+    });
+  };
+
   const handleVideoSubmit = async (videoId: string, url: string) => {
     await addVideoToQueue(videoId, url);
   };
 
+  // A playlist URL adds each of its videos to the queue. Playlist videos
+  // don't go into the history, which is for videos added one by one.
+  const handlePlaylistSubmit = async (playlistId: string) => {
+    setLoadingPlaylist(true);
+    try {
+      const ids = await fetchPlaylistVideoIds(playlistId);
+      const videos = ids.map((id) => ({ id, url: playlistVideoUrl(id, playlistId) }));
+      setVideoQueue((prev) => [...prev, ...videos]);
+      fillMissingVideoData(videos);
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setLoadingPlaylist(false);
+    }
+  };
+
   const handleLoadFromHistory = async (item: VideoHistoryItem) => {
     await addVideoToQueue(item.id, item.url);
   };
 
   // ---- Start session ----
 
+  // Only the leader tab can start: the video queue lives in this page, and a
+  // follower's start would reach the leader as intervals alone
   const startSession = () => {
-    if (intervalBlocks.length === 0) return;
+    if (intervalBlocks.length === 0 || pom.isRemote) return;
     const flat = flattenIntervals(intervalBlocks);
     pom.startPlannedSession(flat);
     setCurrentVideoIndex(0);
@@ -228,6 +400,33 @@ const YouTubePlannedSession: React.FC = () => {
     setPhase("planning");
   };
 
+  // ---- Resume saved session ----
+
+  const handleResumeSession = () => {
+    const session = pom.resumeSession();
+    if (!session) return;
+    const queue = session.extras?.videoQueue ?? [];
+    const index = session.extras?.currentVideoIndex ?? 0;
+    setIntervalBlocks(session.extras?.intervalBlocks ?? []);
+    setVideoQueue(queue);
+    setCurrentVideoIndex(index < queue.length ? index : 0);
+    setPhase("running");
+  };
+
+  // ---- Plan import ----
+  // An imported plan (from a file or a share link) replaces the current
+  // blocks. Its queue replaces ours only if it has one, so a plan from
+  // another source keeps the videos already queued here. Share links carry
+  // bare video IDs, so missing titles/thumbnails are fetched afterwards.
+  const handleImportPlan = (plan: ImportedPlan) => {
+    setIntervalBlocks(plan.blocks);
+    const queue = plan.videoQueue;
+    if (!queue) return;
+    setVideoQueue(queue);
+    setCurrentVideoIndex(0);
+    fillMissingVideoData(queue);
+  };
+
   // ---- Planning phase summary ----
   const flat = flattenIntervals(intervalBlocks);
   const workIntervalCount = flat.filter((i) => i.type === "work").length;
@@ -267,9 +466,11 @@ const YouTubePlannedSession: React.FC = () => {
           onToggleTimer={pom.toggleTimer}
           onResetTimer={pom.resetTimer}
           onSkipSession={pom.skipSession}
+          isRemote={pom.isRemote}
           onCancelSession={handleCancelSession}
           completeText="Session Complete!"
         />
+        <TaskPanel />
 
         {/* Upcoming intervals preview */}
         {!pom.timerComplete && pom.currentIntervalIndex < pom.flatIntervals.length - 1 && (
@@ -316,6 +517,15 @@ const YouTubePlannedSession: React.FC = () => {
           </div>
         )}
 
+        {resumeAt !== null && (
+          <VideoResumePrompt
+            title={currentVideo?.title}
+            position={resumeAt}
+            onResume={handleResumeVideo}
+            onDismiss={() => setResumeAt(null)}
+          />
+        )}
+
         {/* YouTube player */}
         <div className="w-full relative overflow-hidden rounded-xl border border-slate-200 bg-black">
           {videoQueue.length === 0 ? (
@@ -332,6 +542,13 @@ const YouTubePlannedSession: React.FC = () => {
             </div>
           )}
         </div>
+
+        <KeyboardShortcuts
+          shortcuts={[
+            ...plannedSessionShortcuts(pom, handleCancelSession),
+            { keys: ["n"], label: "N", description: "Next video in the queue", action: skipToNextVideo },
+          ]}
+        />
       </>
     );
   }
@@ -341,9 +558,27 @@ const YouTubePlannedSession: React.FC = () => {
   // ==============================
   return (
     <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={handleResumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
       {/* Interval builder */}
       <div className="w-full mb-8">
-        <h2 className="text-lg font-semibold text-slate-900 mb-4">Plan Your Intervals</h2>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-slate-900">Plan Your Intervals</h2>
+          <PlanFileControls
+            intervalBlocks={intervalBlocks}
+            videoQueue={videoQueue}
+            onImport={handleImportPlan}
+          />
+        </div>
+
+        {/* Saved templates */}
+        <PlanTemplates intervalBlocks={intervalBlocks} onLoad={setIntervalBlocks} />
 
         {/* Add interval form */}
         <div className="bg-white rounded-xl border border-slate-200 p-4 mb-4">
@@ -375,25 +610,6 @@ const YouTubePlannedSession: React.FC = () => {
               Add Interval
             </button>
           </div>
-
-          {/* Preset row */}
-          <div className="mt-3 flex gap-3 items-center">
-            <div className="text-xs text-slate-500">Presets:</div>
-            <div className="inline-flex items-center rounded-md border border-slate-300 p-0.5 bg-white">
-              {[
-                { w: 25, b: 5, r: 4, label: "25/5 ×4" },
-                { w: 45, b: 15, r: 2, label: "45/15 ×2" },
-                { w: 60, b: 30, r: 2, label: "60/30 ×2" },
-              ].map((p) => (
-                <button key={p.label}
-                  onClick={() => { setNewWorkMinutes(p.w); setNewBreakMinutes(p.b); setNewRepeat(p.r); }}
-                  className="text-slate-700 hover:bg-slate-50 px-3 py-1.5 text-sm rounded-[6px] cursor-pointer transition-colors"
-                >
-                  {p.label}
-                </button>
-              ))}
-            </div>
-          </div>
         </div>
 
         {/* Interval blocks list */}
@@ -450,14 +666,19 @@ const YouTubePlannedSession: React.FC = () => {
         <VideoInput
           videoHistory={videoHistory}
           onSubmit={handleVideoSubmit}
+          onSubmitPlaylist={handlePlaylistSubmit}
           onRemoveFromHistory={removeFromHistory}
           onClearHistory={clearHistory}
           onLoadFromHistory={handleLoadFromHistory}
           buttonLabel="Add to Queue"
-          placeholder="Add a YouTube URL to the playlist"
+          placeholder="Add a YouTube video or playlist URL"
           clearOnSubmit={true}
         />
 
+        {loadingPlaylist && (
+          <div className="text-sm text-slate-500 mb-3">Loading playlist…</div>
+        )}
+
         {/* Video queue */}
         {videoQueue.length > 0 ? (
           <div className="space-y-2 mb-3">
@@ -475,6 +696,9 @@ const YouTubePlannedSession: React.FC = () => {
                 </div>
                 <div className="flex-1 min-w-0">
                   <div className="text-sm font-medium text-slate-900 truncate">{video.title || "Loading..."}</div>
+                  <div className="mt-1">
+                    <VideoSegmentFields segment={video} onChange={(segment) => setVideoSegment(index, segment)} />
+                  </div>
                 </div>
                 <div className="flex items-center gap-1 flex-shrink-0">
                   <button onClick={() => moveVideoInQueue(index, "up")} disabled={index === 0}
@@ -500,9 +724,17 @@ const YouTubePlannedSession: React.FC = () => {
         )}
       </div>
 
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
       {/* Start session button */}
       <div className="w-full">
-        <button onClick={startSession} disabled={intervalBlocks.length === 0}
+        <button onClick={startSession} disabled={intervalBlocks.length === 0 || pom.isRemote}
           className="w-full bg-slate-900 text-white px-6 py-3 rounded-lg hover:bg-slate-800 transition-colors duration-200 font-semibold cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed text-lg"
         >
           Start Session
@@ -512,6 +744,11 @@ const YouTubePlannedSession: React.FC = () => {
             </span>
           )}
         </button>
+        {pom.isRemote && (
+          <p className="text-xs text-slate-500 text-center mt-2">
+            The timer is running in another tab — start the session from there.
+          </p>
+        )}
       </div>
 
       {/* Instructions */}
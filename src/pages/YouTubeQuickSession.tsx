@@ -1,11 +1,22 @@
-import React from "react";
+import React, { useState, useMemo } from "react";
 import type { VideoHistoryItem } from "../types";
 import { usePomodoro } from "../hooks/usePomodoro";
+import { useBreakMedia } from "../hooks/useBreakMedia";
+import { useMediaSession } from "../hooks/useMediaSession";
 import { useYouTubeProvider } from "../providers/useYouTubeProvider";
-import { useVideoHistory } from "../useVideoHistory";
+import { useVideoHistory, resumablePosition } from "../useVideoHistory";
+import { useVideoPositionTracking } from "../hooks/useVideoPositionTracking";
+import { extractStartSeconds, switchVideo, toVideoRequest } from "../utils";
 import VideoInput from "../components/VideoInput";
+import VideoSegmentFields from "../components/VideoSegmentFields";
+import VideoResumePrompt from "../components/VideoResumePrompt";
 import TimerDisplay from "../components/TimerDisplay";
+import TaskPanel from "../components/TaskPanel";
+import BreakMediaPanel from "../components/BreakMediaPanel";
 import PomodoroSettings from "../components/PomodoroSettings";
+import ResumeSessionBanner from "../components/ResumeSessionBanner";
+import KeyboardShortcuts from "../components/KeyboardShortcuts";
+import { timerShortcuts } from "../hooks/useKeyboardShortcuts";
 
 // =============================================================================
 // YouTubeQuickSession — Quick pomodoro with a single YouTube video
@@ -25,64 +36,168 @@ const YouTubeQuickSession: React.FC = () => {
     provider,
     videoId,
     setVideoId,
+    videoSegment,
+    setVideoSegment,
+    playlistId,
+    setPlaylistId,
     playerContainerRef,
+    playerRef,
   } = useYouTubeProvider({ elementId: "yt-player-quick" });
 
-  // Pomodoro timer: timestamp-based, syncs with the YouTube provider
+  // What plays during breaks
+  const breakMedia = useBreakMedia("youtube");
+
+  // Pomodoro timer: timestamp-based, syncs with the YouTube provider.
+  // The loaded video or playlist is saved with the session so a resume
+  // reloads it.
+  const sessionExtras = useMemo(
+    () => (playlistId ? { playlistId } : { videoId, videoSegment }),
+    [videoId, videoSegment, playlistId],
+  );
   const pom = usePomodoro({
     mode: "quick",
     provider,
+    breakProvider: breakMedia.provider,
     appTitle: "Pomodoro YouTube Player",
+    persistKey: "youtube-quick",
+    source: "youtube",
+    sessionExtras,
   });
 
   // Video history: shared localStorage persistence
-  const { videoHistory, addToHistory, removeFromHistory, clearHistory } =
-    useVideoHistory();
+  const {
+    videoHistory,
+    addToHistory,
+    removeFromHistory,
+    clearHistory,
+    savePosition,
+    savePositionNow,
+  } = useVideoHistory();
+
+  // Remember how far each video got, and offer to pick up from there when
+  // it's loaded again
+  useVideoPositionTracking(playerRef, savePosition, savePositionNow);
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+
+  // OS media controls: show the loaded video and route media keys to the timer
+  const currentVideo = videoHistory.find((item) => item.id === videoId);
+  useMediaSession(pom, currentVideo ? {
+    title: currentVideo.title ?? "YouTube video",
+    subtitle: "YouTube",
+    artwork: currentVideo.thumbnail,
+  } : null);
 
   // ---- Video input handlers ----
 
+  // A ?t= in the URL becomes the segment's start. Only videos loaded
+  // without one get the resume offer, since the URL already says where to
+  // start.
   const handleVideoSubmit = async (id: string, url: string) => {
-    setVideoId(id);
+    const startSeconds = extractStartSeconds(url);
+    setVideoId(id, { startSeconds });
+    setResumeAt(startSeconds === undefined
+      ? resumablePosition(videoHistory.find((item) => item.id === id))
+      : null);
     await addToHistory(id, url);
   };
 
-  const handleLoadFromHistory = async (item: VideoHistoryItem) => {
-    setVideoId(item.id);
-    await addToHistory(item.id, item.url);
+  // Playlists aren't videos, so they stay out of the video history
+  const handlePlaylistSubmit = (id: string) => {
+    setPlaylistId(id);
+    setResumeAt(null);
+  };
+
+  const handleLoadFromHistory = (item: VideoHistoryItem) =>
+    handleVideoSubmit(item.id, item.url);
+
+  // Continue from the saved position; the segment loop still restarts from
+  // the segment's own start
+  const handleResumeVideo = () => {
+    if (playerRef.current?.getPlayerState && resumeAt !== null) {
+      switchVideo(playerRef.current, toVideoRequest(videoId, { ...videoSegment, startSeconds: resumeAt }));
+    }
+    setResumeAt(null);
+  };
+
+  const handleResumeSession = () => {
+    const session = pom.resumeSession();
+    if (session?.extras?.playlistId) {
+      setPlaylistId(session.extras.playlistId);
+    } else if (session?.extras?.videoId) {
+      setVideoId(session.extras.videoId, session.extras.videoSegment);
+    }
   };
 
   // ---- Render ----
 
   return (
     <>
+      {pom.savedSession && (
+        <ResumeSessionBanner
+          session={pom.savedSession}
+          onResume={handleResumeSession}
+          onDiscard={pom.discardSavedSession}
+        />
+      )}
+
       {/* Video URL input */}
       <VideoInput
         videoHistory={videoHistory}
         onSubmit={handleVideoSubmit}
+        onSubmitPlaylist={handlePlaylistSubmit}
         onRemoveFromHistory={removeFromHistory}
         onClearHistory={clearHistory}
         onLoadFromHistory={handleLoadFromHistory}
         buttonLabel="Load Video"
       />
 
+      {/* Part of the video to loop */}
+      {videoId && (
+        <div className="w-full -mt-3 mb-6">
+          <VideoSegmentFields segment={videoSegment} onChange={setVideoSegment} />
+        </div>
+      )}
+
+      {resumeAt !== null && (
+        <VideoResumePrompt
+          title={currentVideo?.title}
+          position={resumeAt}
+          onResume={handleResumeVideo}
+          onDismiss={() => setResumeAt(null)}
+        />
+      )}
+
       {/* Pomodoro settings */}
       <PomodoroSettings
         workMinutes={pom.workMinutes}
         breakMinutes={pom.breakMinutes}
         totalPomodoros={pom.totalPomodoros}
+        longBreakMinutes={pom.longBreakMinutes}
+        longBreakInterval={pom.longBreakInterval}
         isRunning={pom.isRunning}
         isWorking={pom.isWorking}
         onWorkMinutesChange={pom.setWorkMinutes}
         onBreakMinutesChange={pom.setBreakMinutes}
         onTotalPomodorosChange={pom.setTotalPomodoros}
+        onLongBreakMinutesChange={pom.setLongBreakMinutes}
+        onLongBreakIntervalChange={pom.setLongBreakInterval}
         onPreset={pom.setPreset}
       />
 
+      {/* Break media */}
+      <BreakMediaPanel
+        settings={breakMedia.settings}
+        kinds={breakMedia.kinds}
+        onSelectKind={breakMedia.setKind}
+        onSelectYouTubeVideo={breakMedia.setYouTubeVideo}
+      />
+
       {/* Timer display */}
       <TimerDisplay
         timeLeft={pom.timeLeft}
         isRunning={pom.isRunning}
         isWorking={pom.isWorking}
+        isLongBreak={pom.isLongBreak}
         timerComplete={pom.timerComplete}
         progress={pom.progress}
         currentPomodoro={pom.currentPomodoro}
@@ -90,12 +205,14 @@ const YouTubeQuickSession: React.FC = () => {
         onToggleTimer={pom.toggleTimer}
         onResetTimer={pom.resetTimer}
         onSkipSession={pom.skipSession}
+        isRemote={pom.isRemote}
         workMinutes={pom.workMinutes}
       />
+      <TaskPanel />
 
       {/* YouTube player */}
       <div className="w-full relative overflow-hidden rounded-xl border border-slate-200 bg-black">
-        {!videoId ? (
+        {!videoId && !playlistId ? (
           <div className="w-full h-64 flex flex-col items-center justify-center bg-slate-900 text-slate-300">
             <svg
               className="w-14 h-14 mb-3 text-slate-400"
@@ -117,7 +234,7 @@ const YouTubeQuickSession: React.FC = () => {
                 d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
               />
             </svg>
-            <p className="text-center">Enter a YouTube URL to load a video</p>
+            <p className="text-center">Enter a YouTube URL to load a video or playlist</p>
           </div>
         ) : (
           <div
@@ -133,10 +250,13 @@ const YouTubeQuickSession: React.FC = () => {
       <div className="mt-8 p-4 bg-slate-50 rounded-lg border border-slate-200">
         <p className="text-slate-700">
           <span className="font-semibold">How to use:</span> Paste a YouTube
-          music mix URL, configure your Pomodoro settings, and press Start.
-          The music plays during work and pauses for breaks.
+          music mix or playlist URL, configure your Pomodoro settings, and
+          press Start. The music plays during work and pauses for breaks;
+          playlists loop back to the start when they run out.
         </p>
       </div>
+
+      <KeyboardShortcuts shortcuts={timerShortcuts(pom)} />
     </>
   );
 };
@@ -0,0 +1,174 @@
+import type { ImportedPlan, IntervalBlock, PlanFile, QueuedVideo } from "./types";
+import { generateId } from "./utils";
+
+// =============================================================================
+// Plan files — export/import planned session plans as versioned JSON
+// =============================================================================
+//
+// The planned pages keep their interval blocks (and, for YouTube, the video
+// queue) only in component state. Exporting writes them to a small JSON file
+// the user can keep and re-import later, on any source.
+//
+// The file carries a `format` marker and a `version` so future changes to
+// the shape can be detected. Imports are validated field by field and fail
+// with a PlanFileError whose message is meant to be shown to the user as-is.
+
+const FORMAT = "pomodoro-plan";
+const VERSION = 1;
+
+// Limits match the interval builder inputs. Also enforced by plan links.
+export const PLAN_LIMITS = {
+  workMinutes: { min: 1, max: 120 },
+  breakMinutes: { min: 1, max: 60 },
+  repeat: { min: 1, max: 20 },
+} as const;
+
+export const VIDEO_ID_PATTERN = /^[\w-]{11}$/;
+
+export class PlanFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanFileError";
+  }
+}
+
+// --- Export ---
+
+export function serializePlan(blocks: IntervalBlock[], videoQueue?: QueuedVideo[]): string {
+  const plan: PlanFile = {
+    format: FORMAT,
+    version: VERSION,
+    exportedAt: new Date().toISOString(),
+    blocks: blocks.map(({ workMinutes, breakMinutes, repeat }) => ({
+      workMinutes,
+      breakMinutes,
+      repeat,
+    })),
+  };
+  if (videoQueue && videoQueue.length > 0) plan.videoQueue = videoQueue;
+  return JSON.stringify(plan, null, 2);
+}
+
+// Triggers a browser download of the plan as a .json file.
+export function downloadPlan(blocks: IntervalBlock[], videoQueue?: QueuedVideo[]): void {
+  const blob = new Blob([serializePlan(blocks, videoQueue)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `pomodoro-plan-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// --- Import ---
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseBlock(value: unknown, index: number): IntervalBlock {
+  const where = `Interval block ${index + 1}`;
+  if (!isObject(value)) throw new PlanFileError(`${where} is not an object.`);
+
+  const read = (key: keyof typeof PLAN_LIMITS): number => {
+    const n = value[key];
+    const { min, max } = PLAN_LIMITS[key];
+    if (typeof n !== "number" || !Number.isInteger(n)) {
+      throw new PlanFileError(`${where}: "${key}" must be a whole number.`);
+    }
+    if (n < min || n > max) {
+      throw new PlanFileError(`${where}: "${key}" must be between ${min} and ${max} (got ${n}).`);
+    }
+    return n;
+  };
+
+  return {
+    id: generateId(),
+    workMinutes: read("workMinutes"),
+    breakMinutes: read("breakMinutes"),
+    repeat: read("repeat"),
+  };
+}
+
+function parseVideo(value: unknown, index: number): QueuedVideo {
+  const where = `Video ${index + 1}`;
+  if (!isObject(value)) throw new PlanFileError(`${where} is not an object.`);
+  const { id, url, title, thumbnail } = value;
+  if (typeof id !== "string" || !VIDEO_ID_PATTERN.test(id)) {
+    throw new PlanFileError(`${where}: "id" must be an 11-character YouTube video ID.`);
+  }
+  if (typeof url !== "string") {
+    throw new PlanFileError(`${where}: "url" must be a string.`);
+  }
+  if (title !== undefined && typeof title !== "string") {
+    throw new PlanFileError(`${where}: "title" must be a string.`);
+  }
+  if (thumbnail !== undefined && typeof thumbnail !== "string") {
+    throw new PlanFileError(`${where}: "thumbnail" must be a string.`);
+  }
+
+  // Optional segment to play
+  const readSeconds = (key: "startSeconds" | "endSeconds"): number | undefined => {
+    const n = value[key];
+    if (n === undefined) return undefined;
+    if (typeof n !== "number" || !Number.isFinite(n) || n < 0) {
+      throw new PlanFileError(`${where}: "${key}" must be a number of seconds.`);
+    }
+    return n;
+  };
+  const startSeconds = readSeconds("startSeconds");
+  const endSeconds = readSeconds("endSeconds");
+  if (endSeconds !== undefined && endSeconds <= (startSeconds ?? 0)) {
+    throw new PlanFileError(`${where}: "endSeconds" must be after the start.`);
+  }
+
+  return { id, url, title, thumbnail, startSeconds, endSeconds };
+}
+
+// Parses and validates a plan file's text. Throws PlanFileError describing
+// the first problem found.
+export function parsePlan(text: string): ImportedPlan {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PlanFileError("This file is not valid JSON.");
+  }
+
+  if (!isObject(data) || data.format !== FORMAT) {
+    throw new PlanFileError("This doesn't look like a Pomodoro Player plan file.");
+  }
+  if (data.version !== VERSION) {
+    throw new PlanFileError(
+      typeof data.version === "number" && data.version > VERSION
+        ? `This plan was saved by a newer version of the app (version ${data.version}).`
+        : `Unsupported plan file version: ${String(data.version)}.`,
+    );
+  }
+  if (!Array.isArray(data.blocks) || data.blocks.length === 0) {
+    throw new PlanFileError("The plan has no interval blocks.");
+  }
+
+  const blocks = data.blocks.map(parseBlock);
+
+  let videoQueue: QueuedVideo[] | undefined;
+  if (data.videoQueue !== undefined) {
+    if (!Array.isArray(data.videoQueue)) {
+      throw new PlanFileError('"videoQueue" must be a list of videos.');
+    }
+    videoQueue = data.videoQueue.map(parseVideo);
+  }
+
+  return { blocks, videoQueue };
+}
+
+// Reads a picked file and parses it as a plan.
+export async function readPlanFile(file: File): Promise<ImportedPlan> {
+  let text: string;
+  try {
+    text = await file.text();
+  } catch {
+    throw new PlanFileError("Could not read the file.");
+  }
+  return parsePlan(text);
+}
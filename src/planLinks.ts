@@ -0,0 +1,130 @@
+import type { ImportedPlan, IntervalBlock, QueuedVideo, VideoSegment } from "./types";
+import { generateId } from "./utils";
+import { PLAN_LIMITS } from "./planFiles";
+
+// =============================================================================
+// Plan links — compact URL encoding of a planned session
+// =============================================================================
+//
+// A plan can be shared as a link like /nts/planned?plan=25.5.4,50.10.3 that
+// opens the planner pre-filled. The format of the `plan` param:
+//
+//   <work>.<break>.<repeat>[,<work>.<break>.<repeat>...][~<video>[.<video>...]]
+//
+// i.e. blocks separated by commas, each block's minutes/minutes/count joined
+// by dots, and optionally "~" followed by dot-separated videos for the
+// queue. A video is its YouTube ID, followed by "-<start>-<end>" (whole
+// seconds, either may be empty) if only a segment of it plays. Video IDs
+// are always 11 characters, so the dashes can't be mistaken for part of
+// one. All characters are URL-safe, so links stay readable.
+//
+// Decoding is strict: any malformed block, out-of-range number or invalid
+// video ID rejects the whole link with a PlanLinkError, rather than loading
+// a silently altered plan. Encoding refuses plans over the same size limits,
+// so a link that's been shared always opens.
+
+export const PLAN_PARAM = "plan";
+
+// Keep links a sane length
+const MAX_BLOCKS = 50;
+const MAX_VIDEOS = 50;
+
+const BLOCK_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const VIDEO_PATTERN = /^([\w-]{11})(?:-(\d{0,6})-(\d{0,6}))?$/;
+
+export class PlanLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanLinkError";
+  }
+}
+
+type LinkedVideo = Pick<QueuedVideo, "id"> & VideoSegment;
+
+function encodeVideo({ id, startSeconds, endSeconds }: LinkedVideo): string {
+  if (startSeconds === undefined && endSeconds === undefined) return id;
+  const seconds = (s: number | undefined) => (s === undefined ? "" : String(Math.floor(s)));
+  return `${id}-${seconds(startSeconds)}-${seconds(endSeconds)}`;
+}
+
+// Throws a PlanLinkError if the plan is too big for a link.
+export function encodePlanParam(blocks: IntervalBlock[], videos: LinkedVideo[] = []): string {
+  if (blocks.length > MAX_BLOCKS) {
+    throw new PlanLinkError(`Plans with more than ${MAX_BLOCKS} interval blocks can't be shared as a link — export the plan instead.`);
+  }
+  if (videos.length > MAX_VIDEOS) {
+    throw new PlanLinkError(`Queues with more than ${MAX_VIDEOS} videos can't be shared as a link — export the plan instead.`);
+  }
+  const encodedBlocks = blocks
+    .map((b) => `${b.workMinutes}.${b.breakMinutes}.${b.repeat}`)
+    .join(",");
+  return videos.length > 0
+    ? `${encodedBlocks}~${videos.map(encodeVideo).join(".")}`
+    : encodedBlocks;
+}
+
+// Full link to the given planned page with the plan attached.
+export function buildPlanLink(pathname: string, blocks: IntervalBlock[], videos?: LinkedVideo[]): string {
+  const url = new URL(pathname, window.location.origin);
+  url.searchParams.set(PLAN_PARAM, encodePlanParam(blocks, videos));
+  // URLSearchParams percent-encodes "," and "~"; they're safe in a query
+  // string, so undo that to keep the link short and readable.
+  return url.toString().replace(/%2C/gi, ",").replace(/%7E/gi, "~");
+}
+
+function decodeBlock(text: string, index: number): IntervalBlock {
+  const where = `Interval block ${index + 1}`;
+  const match = text.match(BLOCK_PATTERN);
+  if (!match) {
+    throw new PlanLinkError(`${where} is malformed ("${text}").`);
+  }
+  const [workMinutes, breakMinutes, repeat] = match.slice(1).map(Number);
+  const values = { workMinutes, breakMinutes, repeat };
+  for (const key of Object.keys(PLAN_LIMITS) as (keyof typeof PLAN_LIMITS)[]) {
+    const { min, max } = PLAN_LIMITS[key];
+    if (values[key] < min || values[key] > max) {
+      throw new PlanLinkError(`${where}: "${key}" must be between ${min} and ${max} (got ${values[key]}).`);
+    }
+  }
+  return { id: generateId(), ...values };
+}
+
+function decodeVideo(text: string, index: number): QueuedVideo {
+  const where = `Video ${index + 1}`;
+  const match = text.match(VIDEO_PATTERN);
+  if (!match) {
+    throw new PlanLinkError(`${where} is not a valid YouTube video ID.`);
+  }
+  const [, id, start, end] = match;
+  const startSeconds = start ? Number(start) : undefined;
+  const endSeconds = end ? Number(end) : undefined;
+  if (endSeconds !== undefined && endSeconds <= (startSeconds ?? 0)) {
+    throw new PlanLinkError(`${where}: the end must be after the start.`);
+  }
+  return { id, url: `https://www.youtube.com/watch?v=${id}`, startSeconds, endSeconds };
+}
+
+// Decodes a `plan` param. Queue entries only carry IDs and segments, so
+// title/thumbnail are left for the page to fetch.
+export function decodePlanParam(param: string): ImportedPlan {
+  const [blocksPart, videosPart, ...rest] = param.split("~");
+  if (rest.length > 0) throw new PlanLinkError("The plan link is malformed.");
+
+  const blockTexts = blocksPart ? blocksPart.split(",") : [];
+  if (blockTexts.length === 0) throw new PlanLinkError("The plan link has no interval blocks.");
+  if (blockTexts.length > MAX_BLOCKS) {
+    throw new PlanLinkError(`The plan link has too many interval blocks (max ${MAX_BLOCKS}).`);
+  }
+  const blocks = blockTexts.map(decodeBlock);
+
+  let videoQueue: QueuedVideo[] | undefined;
+  if (videosPart !== undefined) {
+    const ids = videosPart.split(".");
+    if (ids.length > MAX_VIDEOS) {
+      throw new PlanLinkError(`The plan link has too many videos (max ${MAX_VIDEOS}).`);
+    }
+    videoQueue = ids.map(decodeVideo);
+  }
+
+  return { blocks, videoQueue };
+}
@@ -0,0 +1,49 @@
+import { useRef, useCallback, useEffect } from "react";
+import type { MediaProvider } from "../types";
+import { loadNotificationSettings, playChime } from "../notifications";
+
+// =============================================================================
+// useChimeLoopProvider — A repeating chime as break media
+// =============================================================================
+//
+// The simplest break media: while "playing" it rings the transition chime
+// every few seconds, so a break is audible without anything to load. It uses
+// the chime style and volume from the notification settings, and needs no
+// network or user setup, so it's always ready.
+
+const CHIME_EVERY_MS = 8000;
+
+export function useChimeLoopProvider(): MediaProvider {
+  const intervalRef = useRef<number | null>(null);
+
+  const ring = useCallback(() => {
+    const { chimeStyle, volume } = loadNotificationSettings();
+    playChime("workToBreak", chimeStyle, volume);
+  }, []);
+
+  const play = useCallback(() => {
+    if (intervalRef.current !== null) return;
+    ring();
+    intervalRef.current = window.setInterval(ring, CHIME_EVERY_MS);
+  }, [ring]);
+
+  const pause = useCallback(() => {
+    if (intervalRef.current !== null) window.clearInterval(intervalRef.current);
+    intervalRef.current = null;
+  }, []);
+
+  const isReady = useCallback(() => true, []);
+
+  const providerRef = useRef<MediaProvider>({ play, pause, isReady, cleanup: pause });
+  useEffect(() => {
+    providerRef.current.play = play;
+    providerRef.current.pause = pause;
+    providerRef.current.isReady = isReady;
+    providerRef.current.cleanup = pause;
+  }, [play, pause, isReady]);
+
+  // Stop ringing when the page goes away
+  useEffect(() => pause, [pause]);
+
+  return providerRef.current;
+}
@@ -0,0 +1,330 @@
+import { useRef, useCallback, useState, useEffect } from "react";
+import type {
+  MediaProvider,
+  LocalTrack,
+  RepeatMode,
+  FileSystemAccessWindow,
+  FileSystemDirectoryHandleLike,
+} from "../types";
+import { generateId } from "../utils";
+
+declare const window: FileSystemAccessWindow;
+
+// =============================================================================
+// useLocalFileProvider — MediaProvider implementation for audio files on disk
+// =============================================================================
+//
+// Plays audio files the user picks from their computer, so the app works with
+// no network at all. Files are chosen via the File System Access API where the
+// browser has it (Chromium), falling back to a plain <input type="file">
+// (with `webkitdirectory` for folders) everywhere else.
+//
+// Unlike NTS, pause() really pauses — the next play() resumes the same track
+// at the same position. When a track ends, the next one is chosen according
+// to the shuffle and repeat settings.
+//
+// The hook returns the MediaProvider interface plus:
+// - audioRef / handleEnded: the caller must render
+//   <audio ref={audioRef} onEnded={handleEnded} /> in their JSX
+// - the track list and library actions (pick files/folder, select, remove)
+// - shuffle / repeat state for the playback controls
+
+const AUDIO_EXTENSIONS = [".mp3", ".m4a", ".aac", ".ogg", ".oga", ".opus", ".wav", ".flac", ".webm"];
+
+function isAudioFile(file: File): boolean {
+  if (file.type.startsWith("audio/")) return true;
+  const name = file.name.toLowerCase();
+  return AUDIO_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+// Recursively collects audio files from a directory picked with
+// showDirectoryPicker, in name order so albums play in sequence.
+async function collectDirectoryFiles(dir: FileSystemDirectoryHandleLike): Promise<File[]> {
+  const files: File[] = [];
+  for await (const entry of dir.values()) {
+    if (entry.kind === "file") {
+      const file = await entry.getFile();
+      if (isAudioFile(file)) files.push(file);
+    } else {
+      files.push(...(await collectDirectoryFiles(entry)));
+    }
+  }
+  return files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+// Fallback picker: a detached <input type="file">, clicked programmatically.
+// Dismissing the dialog fires "cancel" instead of "change", and counts as
+// picking nothing.
+function pickWithInput(directory: boolean): Promise<File[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.multiple = true;
+    input.accept = "audio/*";
+    input.webkitdirectory = directory;
+    input.onchange = () => {
+      const files = Array.from(input.files ?? []).filter(isAudioFile);
+      // webkitRelativePath keeps folder order ("Album/01 Track.mp3")
+      resolve(
+        files.sort((a, b) =>
+          (a.webkitRelativePath || a.name).localeCompare(
+            b.webkitRelativePath || b.name,
+            undefined,
+            { numeric: true },
+          ),
+        ),
+      );
+    };
+    input.oncancel = () => resolve([]);
+    input.click();
+  });
+}
+
+export interface UseLocalFileProviderResult {
+  provider: MediaProvider;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  handleEnded: () => void;
+  tracks: LocalTrack[];
+  currentIndex: number;
+  isPlaying: boolean;
+  shuffle: boolean;
+  setShuffle: (v: boolean) => void;
+  repeat: RepeatMode;
+  setRepeat: (v: RepeatMode) => void;
+  pickFiles: () => Promise<void>;
+  pickFolder: () => Promise<void>;
+  selectTrack: (index: number) => void;
+  removeTrack: (id: string) => void;
+  clearTracks: () => void;
+}
+
+export function useLocalFileProvider(): UseLocalFileProviderResult {
+  const [tracks, setTracks] = useState<LocalTrack[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatMode>("all");
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // The object URL currently assigned to the <audio> element, and the track
+  // it belongs to, so we only swap sources when the track actually changes.
+  const objectUrlRef = useRef<string | null>(null);
+  const loadedTrackIdRef = useRef<string | null>(null);
+  // Whether the timer wants audio playing right now. Track changes while
+  // paused (e.g. selecting a track during a break) must not start playback.
+  const wantsPlaybackRef = useRef(false);
+
+  // Refs mirror state for the stable provider callbacks
+  const tracksRef = useRef<LocalTrack[]>([]);
+  const currentIndexRef = useRef(0);
+  useEffect(() => { tracksRef.current = tracks; }, [tracks]);
+  useEffect(() => { currentIndexRef.current = currentIndex; }, [currentIndex]);
+
+  // Point the <audio> element at the current track, if it isn't already.
+  // The element can be remounted (e.g. a planned page switching phase), so
+  // we also reload when it has lost its src.
+  const loadCurrentTrack = useCallback((): HTMLAudioElement | null => {
+    const audio = audioRef.current;
+    const track = tracksRef.current[currentIndexRef.current];
+    if (!audio || !track) return null;
+
+    if (loadedTrackIdRef.current !== track.id || !audio.src) {
+      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = URL.createObjectURL(track.file);
+      loadedTrackIdRef.current = track.id;
+      audio.src = objectUrlRef.current;
+      audio.load();
+    }
+    return audio;
+  }, []);
+
+  const startAudio = useCallback(() => {
+    const audio = loadCurrentTrack();
+    if (!audio) return;
+    audio.play()
+      .then(() => setIsPlaying(true))
+      .catch((err) => {
+        console.error("Failed to play local audio:", err);
+      });
+  }, [loadCurrentTrack]);
+
+  // When the selected track changes while playback is wanted, switch to it.
+  useEffect(() => {
+    if (wantsPlaybackRef.current) startAudio();
+  }, [currentIndex, tracks, startAudio]);
+
+  // ---- Track end: pick the next track per shuffle / repeat ----
+  const handleEnded = useCallback(() => {
+    const count = tracksRef.current.length;
+    if (count === 0) return;
+    const current = currentIndexRef.current;
+
+    if (repeat === "one") {
+      if (audioRef.current) {
+        audioRef.current.currentTime = 0;
+        startAudio();
+      }
+      return;
+    }
+
+    let next: number;
+    if (shuffle && count > 1) {
+      // Any track but the one that just played
+      next = Math.floor(Math.random() * (count - 1));
+      if (next >= current) next++;
+    } else {
+      next = current + 1;
+    }
+
+    if (next >= count) {
+      if (repeat === "off") {
+        setIsPlaying(false);
+        return;
+      }
+      next = 0;
+    }
+
+    if (next === current) {
+      // Single-track library on repeat-all: the index doesn't change, so
+      // the effect above won't fire — restart directly.
+      if (audioRef.current) audioRef.current.currentTime = 0;
+      startAudio();
+    } else {
+      setCurrentIndex(next);
+    }
+  }, [repeat, shuffle, startAudio]);
+
+  // ---- Library management ----
+
+  const addFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    setTracks((prev) => [
+      ...prev,
+      ...files.map((file) => ({
+        id: generateId(),
+        name: file.webkitRelativePath || file.name,
+        file,
+      })),
+    ]);
+  }, []);
+
+  const pickFiles = useCallback(async () => {
+    try {
+      if (window.showOpenFilePicker) {
+        const handles = await window.showOpenFilePicker({
+          multiple: true,
+          types: [{ description: "Audio", accept: { "audio/*": AUDIO_EXTENSIONS } }],
+        });
+        addFiles(await Promise.all(handles.map((h) => h.getFile())));
+      } else {
+        addFiles(await pickWithInput(false));
+      }
+    } catch (err) {
+      // The user dismissing the picker rejects with AbortError
+      if ((err as Error).name !== "AbortError") {
+        console.error("Failed to pick audio files:", err);
+      }
+    }
+  }, [addFiles]);
+
+  const pickFolder = useCallback(async () => {
+    try {
+      if (window.showDirectoryPicker) {
+        const dir = await window.showDirectoryPicker();
+        addFiles(await collectDirectoryFiles(dir));
+      } else {
+        addFiles(await pickWithInput(true));
+      }
+    } catch (err) {
+      if ((err as Error).name !== "AbortError") {
+        console.error("Failed to pick audio folder:", err);
+      }
+    }
+  }, [addFiles]);
+
+  const selectTrack = useCallback((index: number) => {
+    setCurrentIndex(index);
+  }, []);
+
+  const removeTrack = useCallback((id: string) => {
+    const prev = tracksRef.current;
+    const index = prev.findIndex((t) => t.id === id);
+    if (index === -1) return;
+    const current = currentIndexRef.current;
+    // Keep the same track selected when one before it is removed
+    if (index < current) {
+      setCurrentIndex(current - 1);
+    } else if (index === current && index >= prev.length - 1) {
+      setCurrentIndex(0);
+    }
+    setTracks(prev.filter((t) => t.id !== id));
+  }, []);
+
+  const clearTracks = useCallback(() => {
+    wantsPlaybackRef.current = false;
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setTracks([]);
+    setCurrentIndex(0);
+  }, []);
+
+  // ---- MediaProvider ----
+
+  const play = useCallback(() => {
+    wantsPlaybackRef.current = true;
+    startAudio();
+  }, [startAudio]);
+
+  // Pause in place — the next work interval resumes mid-track.
+  const pause = useCallback(() => {
+    wantsPlaybackRef.current = false;
+    audioRef.current?.pause();
+    setIsPlaying(false);
+  }, []);
+
+  // Reads state rather than tracksRef, so it's already true in the render
+  // that adds the first files: usePomodoro checks readiness at render to
+  // start playback mid-interval.
+  const isReady = useCallback(() => tracks.length > 0, [tracks]);
+
+  const cleanup = useCallback(() => {
+    wantsPlaybackRef.current = false;
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = "";
+    }
+    if (objectUrlRef.current) {
+      URL.revokeObjectURL(objectUrlRef.current);
+      objectUrlRef.current = null;
+    }
+    loadedTrackIdRef.current = null;
+  }, []);
+
+  // Release the object URL when the page unmounts
+  useEffect(() => cleanup, [cleanup]);
+
+  // Build a stable provider ref
+  const providerRef = useRef<MediaProvider>({ play, pause, isReady, cleanup });
+  providerRef.current.play = play;
+  providerRef.current.pause = pause;
+  providerRef.current.isReady = isReady;
+  providerRef.current.cleanup = cleanup;
+
+  return {
+    provider: providerRef.current,
+    audioRef,
+    handleEnded,
+    tracks,
+    currentIndex,
+    isPlaying,
+    shuffle,
+    setShuffle,
+    repeat,
+    setRepeat,
+    pickFiles,
+    pickFolder,
+    selectTrack,
+    removeTrack,
+    clearTracks,
+  };
+}
@@ -0,0 +1,279 @@
+import { useRef, useCallback, useState, useEffect } from "react";
+import type { MediaProvider, NoiseColor, NoiseSettings } from "../types";
+
+// =============================================================================
+// useNoiseProvider — MediaProvider implementation for synthesised ambient noise
+// =============================================================================
+//
+// Needs no network and no files: white, pink and brown noise (plus a
+// rain-like layer) are generated into AudioBuffers with the Web Audio API and
+// looped. Each layer has its own gain node so the user can mix them, and all
+// layers feed a master gain that carries the overall volume.
+//
+// play() and pause() ramp the master gain rather than cutting the sound, so
+// transitions between work and break fade in and out. Once a fade-out has
+// finished the AudioContext is suspended so it isn't burning CPU on silence.
+//
+// The AudioContext is created lazily on the first play(), which always runs
+// after the user has clicked Start — browsers only allow audio to start from
+// a user gesture.
+//
+// The hook returns the MediaProvider interface plus:
+// - settings / setLevel / setVolume: for the mixer UI (persisted)
+// - isPlaying: whether audio is currently audible (or fading in)
+
+const STORAGE_KEY = "pomodoro-noise-settings";
+
+export const NOISE_COLORS: NoiseColor[] = ["white", "pink", "brown", "rain"];
+
+const DEFAULT_NOISE_SETTINGS: NoiseSettings = {
+  levels: { white: 0, pink: 0.6, brown: 0.4, rain: 0 },
+  volume: 0.5,
+};
+
+const FADE_IN_SECONDS = 2;
+const FADE_OUT_SECONDS = 1.5;
+// Length of each looped buffer. Long enough that the loop isn't noticeable.
+const BUFFER_SECONDS = 8;
+// Overlap used to make the loop point seamless (see makeLoopable).
+const CROSSFADE_SECONDS = 0.5;
+
+function loadNoiseSettings(): NoiseSettings {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return DEFAULT_NOISE_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved) as Partial<NoiseSettings>;
+    return {
+      ...DEFAULT_NOISE_SETTINGS,
+      ...parsed,
+      levels: { ...DEFAULT_NOISE_SETTINGS.levels, ...parsed.levels },
+    };
+  } catch (error) {
+    console.error("Failed to parse noise settings:", error);
+    return DEFAULT_NOISE_SETTINGS;
+  }
+}
+
+// --- Noise generation ---
+
+// Fills `out` with noise of the given colour. Pink uses Paul Kellet's filter
+// approximation; brown is leaky-integrated white noise. Rain is pink noise
+// with short decaying bursts ("drops") scattered through it — the graph
+// additionally high-passes it so it sounds like patter rather than rumble.
+function fillNoise(color: NoiseColor, out: Float32Array, sampleRate: number): void {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let brown = 0;
+
+  for (let i = 0; i < out.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === "white") {
+      out[i] = white * 0.5;
+    } else if (color === "brown") {
+      brown = (brown + 0.02 * white) / 1.02;
+      out[i] = brown * 3.5;
+    } else {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      out[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+      b6 = white * 0.115926;
+    }
+  }
+
+  if (color === "rain") {
+    const dropLength = Math.floor(sampleRate * 0.03);
+    const drops = Math.floor((out.length / sampleRate) * 40);
+    for (let d = 0; d < drops; d++) {
+      const start = Math.floor(Math.random() * (out.length - dropLength));
+      const amplitude = 0.2 + Math.random() * 0.5;
+      for (let j = 0; j < dropLength; j++) {
+        const envelope = Math.exp(-j / (dropLength / 6));
+        out[start + j] += (Math.random() * 2 - 1) * amplitude * envelope;
+      }
+    }
+  }
+}
+
+// Generates `length + overlap` samples and folds the overlap back onto the
+// start, so sample length-1 runs straight into sample 0 with no click. This
+// matters most for brown noise, which drifts far from zero.
+function makeLoopable(color: NoiseColor, ctx: AudioContext): AudioBuffer {
+  const length = Math.floor(ctx.sampleRate * BUFFER_SECONDS);
+  const overlap = Math.floor(ctx.sampleRate * CROSSFADE_SECONDS);
+  const raw = new Float32Array(length + overlap);
+  fillNoise(color, raw, ctx.sampleRate);
+
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  data.set(raw.subarray(0, length));
+  for (let i = 0; i < overlap; i++) {
+    const t = i / overlap;
+    data[i] = raw[i] * t + raw[length + i] * (1 - t);
+  }
+  return buffer;
+}
+
+// Ramps a gain param from wherever it currently is (possibly mid-ramp).
+function rampTo(param: AudioParam, ctx: AudioContext, value: number, seconds: number): void {
+  const now = ctx.currentTime;
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(param.value, now);
+  param.linearRampToValueAtTime(value, now + seconds);
+}
+
+// --- Hook ---
+
+interface NoiseGraph {
+  ctx: AudioContext;
+  master: GainNode;
+  layers: Record<NoiseColor, GainNode>;
+}
+
+export interface UseNoiseProviderResult {
+  provider: MediaProvider;
+  settings: NoiseSettings;
+  setLevel: (color: NoiseColor, level: number) => void;
+  setVolume: (volume: number) => void;
+  isPlaying: boolean;
+}
+
+export function useNoiseProvider(): UseNoiseProviderResult {
+  const [settings, setSettings] = useState<NoiseSettings>(loadNoiseSettings);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const graphRef = useRef<NoiseGraph | null>(null);
+  const settingsRef = useRef(settings);
+  const playingRef = useRef(false);
+  // Pending ctx.suspend() after a fade-out, cancelled if play() comes first
+  const suspendTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Build the audio graph on first use: one looping source per colour,
+  // each through its own gain, all into the master gain.
+  const getGraph = useCallback((): NoiseGraph | null => {
+    if (graphRef.current) return graphRef.current;
+    if (typeof AudioContext === "undefined") return null;
+
+    const ctx = new AudioContext();
+    const master = ctx.createGain();
+    master.gain.value = 0;
+    master.connect(ctx.destination);
+
+    const layers = {} as Record<NoiseColor, GainNode>;
+    for (const color of NOISE_COLORS) {
+      const source = ctx.createBufferSource();
+      source.buffer = makeLoopable(color, ctx);
+      source.loop = true;
+
+      const gain = ctx.createGain();
+      gain.gain.value = settingsRef.current.levels[color];
+      gain.connect(master);
+
+      if (color === "rain") {
+        const highpass = ctx.createBiquadFilter();
+        highpass.type = "highpass";
+        highpass.frequency.value = 500;
+        source.connect(highpass).connect(gain);
+      } else {
+        source.connect(gain);
+      }
+      source.start();
+      layers[color] = gain;
+    }
+
+    graphRef.current = { ctx, master, layers };
+    return graphRef.current;
+  }, []);
+
+  const play = useCallback(() => {
+    const graph = getGraph();
+    if (!graph) return;
+    if (suspendTimeoutRef.current !== null) {
+      clearTimeout(suspendTimeoutRef.current);
+      suspendTimeoutRef.current = null;
+    }
+    playingRef.current = true;
+    setIsPlaying(true);
+    graph.ctx.resume()
+      .then(() => {
+        // Paused again while the context was still starting
+        if (!playingRef.current) return;
+        rampTo(graph.master.gain, graph.ctx, settingsRef.current.volume, FADE_IN_SECONDS);
+      })
+      .catch((err) => {
+        console.error("Failed to start ambient noise:", err);
+      });
+  }, [getGraph]);
+
+  const pause = useCallback(() => {
+    playingRef.current = false;
+    setIsPlaying(false);
+    const graph = graphRef.current;
+    if (!graph) return;
+    if (graph.ctx.state !== "running") {
+      // Not started yet (or already suspended): nothing to fade, just make
+      // sure no ramp up is left scheduled
+      graph.master.gain.cancelScheduledValues(0);
+      graph.master.gain.value = 0;
+      return;
+    }
+    rampTo(graph.master.gain, graph.ctx, 0, FADE_OUT_SECONDS);
+    if (suspendTimeoutRef.current !== null) clearTimeout(suspendTimeoutRef.current);
+    suspendTimeoutRef.current = window.setTimeout(() => {
+      suspendTimeoutRef.current = null;
+      graph.ctx.suspend().catch(() => {});
+    }, FADE_OUT_SECONDS * 1000 + 100);
+  }, []);
+
+  const isReady = useCallback(() => typeof AudioContext !== "undefined", []);
+
+  const cleanup = useCallback(() => {
+    if (suspendTimeoutRef.current !== null) {
+      clearTimeout(suspendTimeoutRef.current);
+      suspendTimeoutRef.current = null;
+    }
+    playingRef.current = false;
+    graphRef.current?.ctx.close().catch(() => {});
+    graphRef.current = null;
+  }, []);
+
+  // Close the AudioContext when the page unmounts
+  useEffect(() => cleanup, [cleanup]);
+
+  // ---- Mixer ----
+  // Level and volume changes apply live, with a short ramp to avoid zipper noise.
+
+  const setLevel = useCallback((color: NoiseColor, level: number) => {
+    setSettings((prev) => ({ ...prev, levels: { ...prev.levels, [color]: level } }));
+    const graph = graphRef.current;
+    if (graph) rampTo(graph.layers[color].gain, graph.ctx, level, 0.1);
+  }, []);
+
+  const setVolume = useCallback((volume: number) => {
+    setSettings((prev) => ({ ...prev, volume }));
+    const graph = graphRef.current;
+    if (graph && playingRef.current) rampTo(graph.master.gain, graph.ctx, volume, 0.1);
+  }, []);
+
+  // Build a stable provider ref
+  const providerRef = useRef<MediaProvider>({ play, pause, isReady, cleanup });
+  providerRef.current.play = play;
+  providerRef.current.pause = pause;
+  providerRef.current.isReady = isReady;
+  providerRef.current.cleanup = cleanup;
+
+  return {
+    provider: providerRef.current,
+    settings,
+    setLevel,
+    setVolume,
+    isPlaying,
+  };
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from "react";
+import type { MediaProvider, RadioStation } from "../types";
+import { useStreamProvider } from "./useStreamProvider";
+import { generateId } from "../utils";
+import {
+  loadStations,
+  saveStations,
+  loadSelectedStationId,
+  saveSelectedStationId,
+  parsePlaylist,
+  isStreamUrl,
+  defaultStationName,
+} from "../radioStations";
+
+// =============================================================================
+// useRadioProvider — MediaProvider implementation for any internet radio stream
+// =============================================================================
+//
+// The general form of useNTSProvider: instead of two hard-coded channels, the
+// user keeps a saved list of Icecast/SHOUTcast stream URLs (added by hand or
+// imported from .pls / .m3u files) and picks one. Playback itself is handled
+// by useStreamProvider — reconnect to the live edge on play(), disconnect on
+// pause().
+//
+// The hook returns the MediaProvider interface plus:
+// - audioRef: the caller must render <audio ref={audioRef} /> in their JSX
+// - stations / selectedStation and the actions to manage them
+
+export interface UseRadioProviderResult {
+  provider: MediaProvider;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  stations: RadioStation[];
+  selectedStation: RadioStation | null;
+  selectStation: (id: string) => void;
+  // Returns an error message if the URL can't be used, null on success.
+  addStation: (name: string, url: string) => string | null;
+  renameStation: (id: string, name: string) => void;
+  removeStation: (id: string) => void;
+  // Resolves to the number of stations added, or an error message.
+  importPlaylist: (file: File) => Promise<number | string>;
+}
+
+export function useRadioProvider(): UseRadioProviderResult {
+  const [stations, setStations] = useState<RadioStation[]>(loadStations);
+  const [selectedId, setSelectedId] = useState<string | null>(loadSelectedStationId);
+
+  // Persist whenever the list or selection changes
+  useEffect(() => {
+    saveStations(stations);
+  }, [stations]);
+  useEffect(() => {
+    saveSelectedStationId(selectedId);
+  }, [selectedId]);
+
+  // Fall back to the first station if the saved selection no longer exists
+  const selectedStation =
+    stations.find((s) => s.id === selectedId) ?? stations[0] ?? null;
+
+  const { provider, audioRef } = useStreamProvider(
+    selectedStation?.url ?? null,
+    "radio",
+  );
+
+  const selectStation = useCallback((id: string) => {
+    setSelectedId(id);
+  }, []);
+
+  const addStation = useCallback(
+    (name: string, url: string): string | null => {
+      const trimmedUrl = url.trim();
+      if (!isStreamUrl(trimmedUrl)) {
+        return "Please enter a valid http(s) stream URL";
+      }
+      if (stations.some((s) => s.url === trimmedUrl)) {
+        return "That stream is already saved";
+      }
+      const station: RadioStation = {
+        id: generateId(),
+        name: name.trim() || defaultStationName(trimmedUrl),
+        url: trimmedUrl,
+        addedAt: Date.now(),
+      };
+      setStations((prev) => [...prev, station]);
+      setSelectedId(station.id);
+      return null;
+    },
+    [stations],
+  );
+
+  const renameStation = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setStations((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, name: trimmed } : s)),
+    );
+  }, []);
+
+  const removeStation = useCallback((id: string) => {
+    setStations((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  const importPlaylist = useCallback(
+    async (file: File): Promise<number | string> => {
+      let entries;
+      try {
+        entries = parsePlaylist(file.name, await file.text());
+      } catch (error) {
+        console.error("Failed to read playlist file:", error);
+        return "Could not read that file";
+      }
+      const known = new Set(stations.map((s) => s.url));
+      const fresh = entries.filter((e) => {
+        if (known.has(e.url)) return false;
+        known.add(e.url);
+        return true;
+      });
+      if (entries.length === 0) return "No stream URLs found in that file";
+      if (fresh.length === 0) return "All streams in that file are already saved";
+
+      const now = Date.now();
+      const added: RadioStation[] = fresh.map((e) => ({
+        id: generateId(),
+        name: e.name,
+        url: e.url,
+        addedAt: now,
+      }));
+      setStations((prev) => [...prev, ...added]);
+      setSelectedId(added[0].id);
+      return added.length;
+    },
+    [stations],
+  );
+
+  return {
+    provider,
+    audioRef,
+    stations,
+    selectedStation,
+    selectStation,
+    addStation,
+    renameStation,
+    removeStation,
+    importPlaylist,
+  };
+}
@@ -1,10 +1,19 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import type {
   MediaProvider,
+  SpotifyArtist,
+  SpotifyBrowserPlayerStatus,
+  SpotifyDevice,
+  SpotifyImage,
+  SpotifyPlaybackContext,
   SpotifyPlaybackState,
+  SpotifyTrack,
   SpotifyUserProfile,
   SpotifyTokenResponse,
+  SpotifyWebPlayer,
+  SpotifyWindow,
 } from "../types";
+import { loadSpotifyPlaybackSdk } from "../utils";
 
 // =============================================================================
 // useSpotifyProvider — MediaProvider implementation for Spotify Web API
@@ -19,6 +28,22 @@ import type {
 // - User profile fetching
 // - Playback state polling (every 5s when connected)
 // - Auth redirect handling (code exchange on mount)
+// - Browser player: unless the user turns it off, the page registers itself
+//   as a Spotify Connect device through the Web Playback SDK, so music can
+//   play right here without a separate Spotify app. It's the default target;
+//   when the SDK can't run (unsupported browser, no Premium) play() falls
+//   back to whatever device is active.
+// - Target device: the user can pick one of their Spotify Connect devices
+//   (remembered in localStorage) instead. Before each work interval starts,
+//   playback is transferred to the target if it isn't already the active
+//   one, so play() works even when no Spotify client is currently active.
+// - Work music: the user can pick a playlist, album or track (saved per
+//   Spotify user). When a work interval starts and that context isn't what
+//   Spotify is already playing, play() starts it; otherwise it just resumes,
+//   so each work interval carries on where the last one paused.
+// - Break music: optionally a second playlist/album/track for breaks, played
+//   through breakProvider. The work music it interrupts is remembered and
+//   picked up at the same spot when the next work interval starts.
 //
 // The hook returns the MediaProvider interface plus all the Spotify-specific
 // state the session pages need (token, userInfo, playbackState, login/logout).
@@ -32,8 +57,22 @@ const SCOPES = [
   "user-read-email",
   "user-modify-playback-state",
   "user-read-playback-state",
+  "playlist-read-private",
+  "playlist-read-collaborative",
 ];
 
+const PLAYER_ENDPOINT = "https://api.spotify.com/v1/me/player";
+const API_BASE = "https://api.spotify.com/v1";
+const DEVICE_STORAGE_KEY = "spotify_device_id";
+const BROWSER_PLAYER_STORAGE_KEY = "spotify_browser_player";
+const BROWSER_PLAYER_NAME = "Pomodoro Player";
+const CONTEXT_STORAGE_PREFIX = "spotify_context_";
+const BREAK_CONTEXT_STORAGE_PREFIX = "spotify_break_context_";
+
+// A just-started context may not show up in the polled playback state for a
+// few seconds; don't start it again within this window.
+const CONTEXT_START_GRACE_MS = 10_000;
+
 function getRedirectUri(): string {
   // Must match the redirect URI registered in the Spotify app dashboard.
   // Points to the dedicated /spotify/callback route which handles the code
@@ -62,6 +101,91 @@ async function generateCodeChallenge(codeVerifier: string): Promise<string> {
     .replace(/\//g, "_");
 }
 
+// ---- Catalog helpers ----
+
+// The parts of Spotify's playlist/album objects the picker needs
+interface SpotifyApiPlaylist {
+  uri: string;
+  name: string;
+  images: SpotifyImage[] | null;
+  owner?: { display_name?: string };
+}
+
+interface SpotifyApiAlbum {
+  uri: string;
+  name: string;
+  images: SpotifyImage[];
+  artists: SpotifyArtist[];
+}
+
+const artistNames = (artists: SpotifyArtist[]): string =>
+  artists.map((a) => a.name).join(", ");
+
+const playlistContext = (p: SpotifyApiPlaylist): SpotifyPlaybackContext => ({
+  uri: p.uri,
+  kind: "playlist",
+  name: p.name,
+  subtitle: p.owner?.display_name,
+  imageUrl: p.images?.[0]?.url,
+});
+
+const albumContext = (a: SpotifyApiAlbum): SpotifyPlaybackContext => ({
+  uri: a.uri,
+  kind: "album",
+  name: a.name,
+  subtitle: artistNames(a.artists),
+  imageUrl: a.images[0]?.url,
+});
+
+const trackContext = (t: SpotifyTrack): SpotifyPlaybackContext => ({
+  uri: t.uri,
+  kind: "track",
+  name: t.name,
+  subtitle: artistNames(t.artists),
+  imageUrl: t.album?.images[0]?.url,
+});
+
+// Whether Spotify is already playing from the given context
+function isPlayingContext(
+  state: SpotifyPlaybackState | null,
+  context: SpotifyPlaybackContext,
+): boolean {
+  return context.kind === "track"
+    ? state?.item?.uri === context.uri
+    : state?.context?.uri === context.uri;
+}
+
+// What was playing when break music took over
+interface InterruptedPlayback {
+  contextUri: string | null;
+  itemUri: string;
+  positionMs: number;
+}
+
+// PUT /play bodies
+const contextBody = (context: SpotifyPlaybackContext) =>
+  context.kind === "track" ? { uris: [context.uri] } : { context_uri: context.uri };
+
+const resumeBody = (playback: InterruptedPlayback) =>
+  playback.contextUri
+    ? {
+        context_uri: playback.contextUri,
+        offset: { uri: playback.itemUri },
+        position_ms: playback.positionMs,
+      }
+    : { uris: [playback.itemUri], position_ms: playback.positionMs };
+
+function loadPlaybackContext(key: string): SpotifyPlaybackContext | null {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved) as SpotifyPlaybackContext;
+  } catch (error) {
+    console.error("Failed to parse saved Spotify context:", error);
+    return null;
+  }
+}
+
 // ---- Return type ----
 
 export interface UseSpotifyProviderResult {
@@ -73,6 +197,26 @@ export interface UseSpotifyProviderResult {
   playbackState: SpotifyPlaybackState | null;
   handleLogin: () => Promise<void>;
   handleLogout: () => void;
+  // Device picker
+  devices: SpotifyDevice[];
+  selectedDeviceId: string | null; // null = this browser, else whichever device is active
+  selectDevice: (id: string | null) => void;
+  refreshDevices: () => Promise<void>;
+  // In-browser playback
+  browserPlayerEnabled: boolean;
+  setBrowserPlayerEnabled: (enabled: boolean) => void;
+  browserPlayerStatus: SpotifyBrowserPlayerStatus;
+  browserDeviceId: string | null;
+  // Work music picker
+  playbackContext: SpotifyPlaybackContext | null; // null = resume whatever was playing
+  selectContext: (context: SpotifyPlaybackContext | null) => void;
+  getUserPlaylists: () => Promise<SpotifyPlaybackContext[]>;
+  searchCatalog: (query: string) => Promise<SpotifyPlaybackContext[]>;
+  // Break music: a second MediaProvider for usePomodoro's breakProvider. It
+  // is only ready once a break context has been chosen.
+  breakProvider: MediaProvider;
+  breakContext: SpotifyPlaybackContext | null;
+  selectBreakContext: (context: SpotifyPlaybackContext | null) => void;
 }
 
 export function useSpotifyProvider(): UseSpotifyProviderResult {
@@ -81,6 +225,38 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
   const [isLoading, setIsLoading] = useState(false);
   const [userInfo, setUserInfo] = useState<SpotifyUserProfile | null>(null);
   const [playbackState, setPlaybackState] = useState<SpotifyPlaybackState | null>(null);
+  const [devices, setDevices] = useState<SpotifyDevice[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(
+    () => localStorage.getItem(DEVICE_STORAGE_KEY),
+  );
+
+  const [browserPlayerEnabled, setBrowserPlayerEnabledState] = useState(
+    () => localStorage.getItem(BROWSER_PLAYER_STORAGE_KEY) !== "false",
+  );
+  const [browserPlayerStatus, setBrowserPlayerStatus] =
+    useState<SpotifyBrowserPlayerStatus>("off");
+  const [browserDeviceId, setBrowserDeviceId] = useState<string | null>(null);
+  const [playbackContext, setPlaybackContext] = useState<SpotifyPlaybackContext | null>(null);
+  const [breakContext, setBreakContext] = useState<SpotifyPlaybackContext | null>(null);
+
+  // Mirrors for the stable play() callback
+  const selectedDeviceIdRef = useRef(selectedDeviceId);
+  const browserDeviceIdRef = useRef<string | null>(null);
+  const browserPlayerRef = useRef<SpotifyWebPlayer | null>(null);
+  const activeDeviceIdRef = useRef<string | null>(null);
+  const playbackStateRef = useRef<SpotifyPlaybackState | null>(null);
+  const playbackContextRef = useRef<SpotifyPlaybackContext | null>(null);
+  const breakContextRef = useRef<SpotifyPlaybackContext | null>(null);
+  const lastContextStartRef = useRef<{ uri: string; at: number } | null>(null);
+  const interruptedRef = useRef<InterruptedPlayback | null>(null);
+  useEffect(() => { selectedDeviceIdRef.current = selectedDeviceId; }, [selectedDeviceId]);
+  useEffect(() => { browserDeviceIdRef.current = browserDeviceId; }, [browserDeviceId]);
+  useEffect(() => {
+    playbackStateRef.current = playbackState;
+    activeDeviceIdRef.current = playbackState?.device?.id ?? null;
+  }, [playbackState]);
+  useEffect(() => { playbackContextRef.current = playbackContext; }, [playbackContext]);
+  useEffect(() => { breakContextRef.current = breakContext; }, [breakContext]);
 
   const refreshTimeoutRef = useRef<number | null>(null);
   // Guard against duplicate play/pause calls from rapid timer transitions
@@ -212,6 +388,204 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
     }
   }, [refreshAccessToken]);
 
+  // ---- Devices ----
+  const getDevices = useCallback(async (accessToken: string): Promise<void> => {
+    try {
+      const response = await fetch(`${PLAYER_ENDPOINT}/devices`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      if (response.status === 401) {
+        const ok = await refreshAccessToken();
+        if (ok) return getDevices(localStorage.getItem("spotify_access_token") || accessToken);
+      }
+
+      if (!response.ok) throw new Error("HTTP status " + response.status);
+
+      const data = await response.json() as { devices: SpotifyDevice[] };
+      setDevices(data.devices ?? []);
+    } catch (err) {
+      setError(`Failed to get devices: ${(err as Error).message}`);
+    }
+  }, [refreshAccessToken]);
+
+  const refreshDevices = useCallback(async (): Promise<void> => {
+    const validToken = await getValidAccessToken();
+    if (validToken) await getDevices(validToken);
+  }, [getValidAccessToken, getDevices]);
+
+  const selectDevice = useCallback((id: string | null) => {
+    setSelectedDeviceId(id);
+    if (id) {
+      localStorage.setItem(DEVICE_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(DEVICE_STORAGE_KEY);
+    }
+  }, []);
+
+  // Moves playback to the chosen device without starting it; the play call
+  // that follows targets the device explicitly. Returns false if Spotify
+  // refused (usually because the device has gone offline).
+  // Failures are only reported when reportErrors is set, so a fallback can
+  // stay quiet.
+  const transferPlayback = useCallback(async (
+    accessToken: string,
+    deviceId: string,
+    reportErrors = true,
+  ): Promise<boolean> => {
+    const res = await fetch(PLAYER_ENDPOINT, {
+      method: "PUT",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ device_ids: [deviceId], play: false }),
+    });
+    if (res.ok) return true;
+    if (!reportErrors) return false;
+    if (res.status === 404) {
+      setError("The selected Spotify device is unavailable. Open Spotify on it or pick another device.");
+    } else {
+      const errorData = await res.json().catch(() => null);
+      setError(`Cannot switch device: ${errorData?.error?.message || `HTTP status ${res.status}`}`);
+    }
+    return false;
+  }, []);
+
+  // ---- Browser player ----
+
+  const setBrowserPlayerEnabled = useCallback((enabled: boolean) => {
+    setBrowserPlayerEnabledState(enabled);
+    localStorage.setItem(BROWSER_PLAYER_STORAGE_KEY, String(enabled));
+  }, []);
+
+  // Registers this page as a Connect device while connected. The device id
+  // only exists between "ready" and "not_ready"; the SDK fetches a fresh
+  // token through getOAuthToken whenever it needs one.
+  const connected = token !== null;
+  useEffect(() => {
+    if (!connected || !browserPlayerEnabled) {
+      setBrowserPlayerStatus("off");
+      return;
+    }
+
+    let cancelled = false;
+    let player: SpotifyWebPlayer | null = null;
+    setBrowserPlayerStatus("connecting");
+
+    const markUnavailable = (reason: string) => {
+      if (cancelled) return;
+      console.warn(`Spotify browser player unavailable: ${reason}`);
+      browserPlayerRef.current = null;
+      setBrowserDeviceId(null);
+      setBrowserPlayerStatus("unavailable");
+    };
+
+    loadSpotifyPlaybackSdk()
+      .then(async () => {
+        if (cancelled) return;
+        const spotifyWindow = window as unknown as SpotifyWindow;
+        player = new spotifyWindow.Spotify.Player({
+          name: BROWSER_PLAYER_NAME,
+          getOAuthToken: (callback) => {
+            getValidAccessToken().then((t) => { if (t) callback(t); });
+          },
+        });
+        player.addListener("ready", ({ device_id }) => {
+          if (cancelled) return;
+          browserPlayerRef.current = player;
+          setBrowserDeviceId(device_id);
+          setBrowserPlayerStatus("ready");
+        });
+        player.addListener("not_ready", () => {
+          if (cancelled) return;
+          setBrowserDeviceId(null);
+          setBrowserPlayerStatus("connecting");
+        });
+        player.addListener("initialization_error", ({ message }) => markUnavailable(message));
+        player.addListener("authentication_error", ({ message }) => markUnavailable(message));
+        player.addListener("account_error", ({ message }) => markUnavailable(message));
+        player.addListener("playback_error", ({ message }) => {
+          console.error("Spotify browser player error:", message);
+        });
+        if (!await player.connect()) markUnavailable("connection refused");
+      })
+      .catch((err: Error) => markUnavailable(err.message));
+
+    return () => {
+      cancelled = true;
+      player?.disconnect();
+      browserPlayerRef.current = null;
+      setBrowserDeviceId(null);
+    };
+  }, [connected, browserPlayerEnabled, getValidAccessToken]);
+
+  // ---- Work music ----
+
+  // GET helper for the catalog endpoints; retries once after a 401
+  const apiGet = useCallback(async <T>(path: string): Promise<T> => {
+    const validToken = await getValidAccessToken();
+    if (!validToken) throw new Error("Not connected to Spotify");
+    let response = await fetch(API_BASE + path, {
+      headers: { Authorization: `Bearer ${validToken}` },
+    });
+    if (response.status === 401 && await refreshAccessToken()) {
+      response = await fetch(API_BASE + path, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("spotify_access_token")}` },
+      });
+    }
+    if (!response.ok) throw new Error("HTTP status " + response.status);
+    return await response.json() as T;
+  }, [getValidAccessToken, refreshAccessToken]);
+
+  const getUserPlaylists = useCallback(async (): Promise<SpotifyPlaybackContext[]> => {
+    const data = await apiGet<{ items: (SpotifyApiPlaylist | null)[] }>("/me/playlists?limit=50");
+    return data.items.filter((p) => p !== null).map(playlistContext);
+  }, [apiGet]);
+
+  const searchCatalog = useCallback(async (query: string): Promise<SpotifyPlaybackContext[]> => {
+    const params = new URLSearchParams({ q: query, type: "playlist,album,track", limit: "5" });
+    // Spotify occasionally returns null entries in search results
+    const data = await apiGet<{
+      playlists?: { items: (SpotifyApiPlaylist | null)[] };
+      albums?: { items: (SpotifyApiAlbum | null)[] };
+      tracks?: { items: (SpotifyTrack | null)[] };
+    }>(`/search?${params}`);
+    return [
+      ...(data.playlists?.items ?? []).filter((p) => p !== null).map(playlistContext),
+      ...(data.albums?.items ?? []).filter((a) => a !== null).map(albumContext),
+      ...(data.tracks?.items ?? []).filter((t) => t !== null).map(trackContext),
+    ];
+  }, [apiGet]);
+
+  // The choice is saved per Spotify account, so it follows whoever connects
+  const userId = userInfo?.id ?? null;
+  useEffect(() => {
+    setPlaybackContext(userId ? loadPlaybackContext(CONTEXT_STORAGE_PREFIX + userId) : null);
+    setBreakContext(userId ? loadPlaybackContext(BREAK_CONTEXT_STORAGE_PREFIX + userId) : null);
+  }, [userId]);
+
+  const saveContext = useCallback((prefix: string, context: SpotifyPlaybackContext | null) => {
+    if (!userId) return;
+    if (context) {
+      localStorage.setItem(prefix + userId, JSON.stringify(context));
+    } else {
+      localStorage.removeItem(prefix + userId);
+    }
+  }, [userId]);
+
+  // Takes effect the next time a work interval starts
+  const selectContext = useCallback((context: SpotifyPlaybackContext | null) => {
+    setPlaybackContext(context);
+    saveContext(CONTEXT_STORAGE_PREFIX, context);
+  }, [saveContext]);
+
+  // Takes effect the next time a break starts
+  const selectBreakContext = useCallback((context: SpotifyPlaybackContext | null) => {
+    setBreakContext(context);
+    saveContext(BREAK_CONTEXT_STORAGE_PREFIX, context);
+  }, [saveContext]);
+
   // ---- Login ----
   const handleLogin = useCallback(async (): Promise<void> => {
     setIsLoading(true);
@@ -246,6 +620,7 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
     setToken(null);
     setUserInfo(null);
     setPlaybackState(null);
+    setDevices([]);
     if (refreshTimeoutRef.current) {
       clearTimeout(refreshTimeoutRef.current);
       refreshTimeoutRef.current = null;
@@ -273,6 +648,7 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
         }, delay);
         await getUserInfo(storedToken);
         await getPlaybackState(storedToken);
+        await getDevices(storedToken);
         return;
       }
 
@@ -282,6 +658,7 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
         if (ok && newToken) {
           await getUserInfo(newToken);
           await getPlaybackState(newToken);
+          await getDevices(newToken);
         }
       }
     };
@@ -300,28 +677,58 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
     return () => clearInterval(interval);
   }, [token, getPlaybackState]);
 
-  // ---- MediaProvider: play ----
-  const play = useCallback(async () => {
+  // ---- Playback start ----
+  // Shared by the work and break players: moves playback to the target
+  // device if needed and sends PUT /play, with `body` choosing what to play
+  // (undefined resumes whatever was playing). Returns whether Spotify
+  // accepted it.
+  const startPlayback = useCallback(async (body?: object): Promise<boolean> => {
+    // Browsers only let the SDK's audio element play after a user gesture;
+    // this has to run before the first await to count as part of one.
+    browserPlayerRef.current?.activateElement().catch(() => {});
+
     const validToken = await getValidAccessToken();
-    if (!validToken) return;
+    if (!validToken) return false;
 
     try {
       programmaticChangeRef.current = true;
-      const res = await fetch("https://api.spotify.com/v1/me/player/play", {
-        method: "PUT",
-        headers: { Authorization: `Bearer ${validToken}` },
-      });
+      // A picked device wins; otherwise this browser, otherwise the active one
+      const usingBrowser = !selectedDeviceIdRef.current && browserDeviceIdRef.current !== null;
+      let deviceId = selectedDeviceIdRef.current ?? browserDeviceIdRef.current;
+      if (deviceId && activeDeviceIdRef.current !== deviceId) {
+        if (await transferPlayback(validToken, deviceId, !usingBrowser)) {
+          activeDeviceIdRef.current = deviceId;
+        } else if (usingBrowser) {
+          // The browser player dropped out — fall back to the active device
+          deviceId = null;
+        }
+      }
+      const playUrl = deviceId
+        ? `${PLAYER_ENDPOINT}/play?device_id=${encodeURIComponent(deviceId)}`
+        : `${PLAYER_ENDPOINT}/play`;
+
+      const playInit = (accessToken: string | null): RequestInit => body
+        ? {
+            method: "PUT",
+            headers: {
+              Authorization: `Bearer ${accessToken}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(body),
+          }
+        : { method: "PUT", headers: { Authorization: `Bearer ${accessToken}` } };
+
+      let res = await fetch(playUrl, playInit(validToken));
 
       if (res.status === 401) {
         const ok = await refreshAccessToken();
         if (ok) {
           const t = localStorage.getItem("spotify_access_token");
-          await fetch("https://api.spotify.com/v1/me/player/play", {
-            method: "PUT",
-            headers: { Authorization: `Bearer ${t}` },
-          });
+          res = await fetch(playUrl, playInit(t));
         }
-      } else if (res.status === 403) {
+      }
+
+      if (res.status === 403) {
         const errorData = await res.json().catch(() => null);
         const errorMsg = errorData?.error?.message || "Access forbidden";
         if (errorMsg.includes("Premium") || errorMsg.includes("premium")) {
@@ -330,7 +737,9 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
           setError(`Cannot start playback: ${errorMsg}`);
         }
       } else if (res.status === 404) {
-        setError("No active device found. Please open Spotify on your device.");
+        setError(deviceId
+          ? "The selected Spotify device is unavailable. Open Spotify on it or pick another device."
+          : "No active device found. Please open Spotify on your device or pick one above.");
       }
 
       // Refresh playback state after a short delay
@@ -339,11 +748,57 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
         if (t) getPlaybackState(t);
         programmaticChangeRef.current = false;
       }, 1000);
+      return res.ok;
     } catch (err) {
       setError(`Failed to start playback: ${(err as Error).message}`);
       programmaticChangeRef.current = false;
+      return false;
     }
-  }, [getValidAccessToken, refreshAccessToken, getPlaybackState]);
+  }, [getValidAccessToken, refreshAccessToken, getPlaybackState, transferPlayback]);
+
+  // ---- MediaProvider: play ----
+  // Returns to the music a break interrupted if there is any; otherwise
+  // starts the chosen work music unless it's already what's playing, or
+  // just resumes.
+  const play = useCallback(async () => {
+    const interrupted = interruptedRef.current;
+    interruptedRef.current = null;
+    if (interrupted) {
+      await startPlayback(resumeBody(interrupted));
+      return;
+    }
+
+    const context = playbackContextRef.current;
+    const lastStart = lastContextStartRef.current;
+    const startContext =
+      context !== null &&
+      !isPlayingContext(playbackStateRef.current, context) &&
+      !(lastStart?.uri === context.uri && Date.now() - lastStart.at < CONTEXT_START_GRACE_MS);
+    const started = await startPlayback(startContext ? contextBody(context) : undefined);
+    if (started && startContext) {
+      lastContextStartRef.current = { uri: context.uri, at: Date.now() };
+    }
+  }, [startPlayback]);
+
+  // ---- Break player: play ----
+  // Notes what was playing (fetched fresh — the polled state can be seconds
+  // old) so the next work interval can pick it up again, then starts the
+  // break music.
+  const playBreak = useCallback(async () => {
+    const context = breakContextRef.current;
+    if (!context) return;
+    if (!interruptedRef.current) {
+      const state = await apiGet<SpotifyPlaybackState>("/me/player").catch(() => null);
+      if (state?.item && !isPlayingContext(state, context)) {
+        interruptedRef.current = {
+          contextUri: state.context?.uri ?? null,
+          itemUri: state.item.uri,
+          positionMs: state.progress_ms ?? 0,
+        };
+      }
+    }
+    await startPlayback(contextBody(context));
+  }, [apiGet, startPlayback]);
 
   // ---- MediaProvider: pause ----
   const pause = useCallback(async () => {
@@ -389,6 +844,39 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
     }
   }, [getValidAccessToken, refreshAccessToken, getPlaybackState]);
 
+  // ---- MediaProvider: setVolume ----
+  // Fades scale the device volume from the last poll, which is remembered
+  // from the first step of a fade until it's restored at level 1. Some
+  // devices don't allow remote volume control; fading is cosmetic, so
+  // failures are ignored rather than shown.
+  const baseVolumeRef = useRef<number | null>(null);
+  const setVolume = useCallback(async (level: number) => {
+    let base = baseVolumeRef.current;
+    if (level >= 1) {
+      baseVolumeRef.current = null;
+    } else if (base === null) {
+      base = playbackStateRef.current?.device?.volume_percent ?? null;
+      baseVolumeRef.current = base;
+    }
+    if (base === null) return;
+
+    const validToken = await getValidAccessToken();
+    if (!validToken) return;
+    const url = `${PLAYER_ENDPOINT}/volume?volume_percent=${Math.round(base * Math.min(1, level))}`;
+    try {
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: { Authorization: `Bearer ${validToken}` },
+      });
+      if (res.status === 401 && (await refreshAccessToken())) {
+        const t = localStorage.getItem("spotify_access_token");
+        await fetch(url, { method: "PUT", headers: { Authorization: `Bearer ${t}` } });
+      }
+    } catch {
+      // Leave the volume where it is
+    }
+  }, [getValidAccessToken, refreshAccessToken]);
+
   const isReady = useCallback(() => !!token, [token]);
 
   const cleanup = useCallback(() => {
@@ -396,13 +884,31 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
   }, []);
 
   // Build a stable provider ref
-  const providerRef = useRef<MediaProvider>({ play, pause, isReady, cleanup });
+  const providerRef = useRef<MediaProvider>({ play, pause, isReady, setVolume, cleanup });
   useEffect(() => {
     providerRef.current.play = play;
     providerRef.current.pause = pause;
     providerRef.current.isReady = isReady;
+    providerRef.current.setVolume = setVolume;
     providerRef.current.cleanup = cleanup;
-  }, [play, pause, isReady, cleanup]);
+  }, [play, pause, isReady, setVolume, cleanup]);
+
+  // The break player shares the Spotify player with the work one. Its
+  // pause() does nothing: pausing the timer pauses through the work
+  // provider, and the next work interval replaces the break music anyway.
+  // A second pause request would only fail, as Spotify rejects pausing an
+  // already paused player.
+  const isBreakReady = useCallback(() => !!token && breakContext !== null, [token, breakContext]);
+  const breakProviderRef = useRef<MediaProvider>({
+    play: playBreak,
+    pause: () => {},
+    isReady: isBreakReady,
+    cleanup,
+  });
+  useEffect(() => {
+    breakProviderRef.current.play = playBreak;
+    breakProviderRef.current.isReady = isBreakReady;
+  }, [playBreak, isBreakReady]);
 
   return {
     provider: providerRef.current,
@@ -413,5 +919,20 @@ export function useSpotifyProvider(): UseSpotifyProviderResult {
     playbackState,
     handleLogin,
     handleLogout,
+    devices,
+    selectedDeviceId,
+    selectDevice,
+    refreshDevices,
+    browserPlayerEnabled,
+    setBrowserPlayerEnabled,
+    browserPlayerStatus,
+    browserDeviceId,
+    playbackContext,
+    selectContext,
+    getUserPlaylists,
+    searchCatalog,
+    breakProvider: breakProviderRef.current,
+    breakContext,
+    selectBreakContext,
   };
 }
@@ -0,0 +1,103 @@
+import { useRef, useCallback, useEffect } from "react";
+import type { MediaProvider } from "../types";
+
+// =============================================================================
+// useStreamProvider — MediaProvider implementation for live audio streams
+// =============================================================================
+//
+// Shared by the NTS and internet radio sources. A live stream (Icecast,
+// SHOUTcast, or any plain HTTP audio stream) has no meaningful position to
+// resume from, so play() connects to the live edge (busting the cache with a
+// timestamp query param), and pause() disconnects entirely (clears the src so
+// the next play reconnects fresh to the live stream rather than resuming from
+// a stale buffer position).
+//
+// If the stream URL changes while connected (e.g. the user switches station
+// mid-work-period), we reconnect to the new URL straight away.
+//
+// The hook returns the MediaProvider interface plus:
+// - audioRef: the caller must render <audio ref={audioRef} /> in their JSX
+
+export interface UseStreamProviderResult {
+  provider: MediaProvider;
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+}
+
+// Appends a cache-busting param, respecting any query string already present
+// on user-supplied URLs.
+export function withCacheBuster(url: string): string {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}t=${Date.now()}`;
+}
+
+export function useStreamProvider(
+  streamUrl: string | null,
+  label = "stream",
+): UseStreamProviderResult {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Whether we're currently connected (between play() and pause()).
+  const connectedRef = useRef(false);
+
+  // Reconnect to the live edge.
+  const play = useCallback(() => {
+    if (!audioRef.current || !streamUrl) return;
+    const audio = audioRef.current;
+    connectedRef.current = true;
+    audio.src = withCacheBuster(streamUrl);
+    audio.load();
+    audio.play().catch((err) => {
+      console.error(`Failed to play ${label} audio:`, err);
+    });
+  }, [streamUrl, label]);
+
+  // Stop playback and clear the source so the next start reconnects to live.
+  const pause = useCallback(() => {
+    connectedRef.current = false;
+    if (!audioRef.current) return;
+    audioRef.current.pause();
+    audioRef.current.src = "";
+    audioRef.current.load();
+  }, []);
+
+  // Ready as soon as there's something to connect to — the <audio> element
+  // itself is always available.
+  const isReady = useCallback(() => streamUrl !== null, [streamUrl]);
+
+  // The <audio> element has no volume control of its own, so full volume is
+  // the normal level. It survives the reconnects in play().
+  const setVolume = useCallback((level: number) => {
+    if (audioRef.current) audioRef.current.volume = Math.min(1, Math.max(0, level));
+  }, []);
+
+  const cleanup = useCallback(() => {
+    connectedRef.current = false;
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.src = "";
+    }
+  }, []);
+
+  // Switch streams live when the URL changes while connected
+  useEffect(() => {
+    if (!connectedRef.current) return;
+    if (streamUrl) {
+      play();
+    } else {
+      pause();
+    }
+  }, [streamUrl, play, pause]);
+
+  // Build a stable provider ref
+  const providerRef = useRef<MediaProvider>({ play, pause, isReady, setVolume, cleanup });
+  // Keep methods up to date (play depends on the stream URL)
+  providerRef.current.play = play;
+  providerRef.current.pause = pause;
+  providerRef.current.isReady = isReady;
+  providerRef.current.setVolume = setVolume;
+  providerRef.current.cleanup = cleanup;
+
+  return {
+    provider: providerRef.current,
+    audioRef,
+  };
+}
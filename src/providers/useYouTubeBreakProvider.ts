@@ -0,0 +1,102 @@
+import { useRef, useCallback, useEffect } from "react";
+import type { MediaProvider, YouTubePlayer, YouTubeWindow } from "../types";
+import { loadYouTubeApi } from "../utils";
+
+declare const window: YouTubeWindow;
+
+// =============================================================================
+// useYouTubeBreakProvider — A YouTube video as break media
+// =============================================================================
+//
+// Plays one video (a stretching routine, say) during breaks, on any source's
+// page. The player lives in a small floating box the provider adds to
+// <body> itself, so it doesn't depend on the page's layout and survives a
+// planned page switching phases. The box is only visible while the video
+// plays; the video loops, and each break carries on where the last one
+// paused.
+//
+// The IFrame API is loaded once a video is set; until the player is ready,
+// a play() is remembered and carried out then.
+
+const HOST_CLASSES =
+  "fixed bottom-4 left-4 z-40 w-80 max-w-[calc(100%-2rem)] aspect-video rounded-lg overflow-hidden shadow-lg border border-slate-200 bg-black";
+
+function setVisible(host: HTMLElement | null, visible: boolean): void {
+  host?.classList.toggle("invisible", !visible);
+}
+
+export function useYouTubeBreakProvider(videoId: string | null): MediaProvider {
+  const playerRef = useRef<YouTubePlayer | null>(null);
+  const hostRef = useRef<HTMLDivElement | null>(null);
+  const readyRef = useRef(false);
+  const wantPlayingRef = useRef(false);
+
+  useEffect(() => {
+    if (!videoId) return;
+    let cancelled = false;
+
+    const host = document.createElement("div");
+    host.className = `${HOST_CLASSES} invisible`;
+    const mount = document.createElement("div");
+    host.appendChild(mount);
+    document.body.appendChild(host);
+    hostRef.current = host;
+
+    loadYouTubeApi().then(() => {
+      if (cancelled) return;
+      playerRef.current = new window.YT.Player(mount, {
+        width: "100%",
+        height: "100%",
+        videoId,
+        playerVars: { autoplay: 0, controls: 1, rel: 0 },
+        events: {
+          onReady: (event) => {
+            readyRef.current = true;
+            if (wantPlayingRef.current) {
+              setVisible(host, true);
+              event.target.playVideo();
+            }
+          },
+          onStateChange: (event) => {
+            // Loop the video for as long as the break lasts
+            if (event.data === 0) event.target.playVideo();
+          },
+        },
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      readyRef.current = false;
+      playerRef.current?.destroy();
+      playerRef.current = null;
+      host.remove();
+      hostRef.current = null;
+    };
+  }, [videoId]);
+
+  const play = useCallback(() => {
+    wantPlayingRef.current = true;
+    if (!readyRef.current) return;
+    setVisible(hostRef.current, true);
+    playerRef.current?.playVideo();
+  }, []);
+
+  const pause = useCallback(() => {
+    wantPlayingRef.current = false;
+    setVisible(hostRef.current, false);
+    if (readyRef.current) playerRef.current?.pauseVideo();
+  }, []);
+
+  const isReady = useCallback(() => !!videoId, [videoId]);
+
+  const providerRef = useRef<MediaProvider>({ play, pause, isReady, cleanup: pause });
+  useEffect(() => {
+    providerRef.current.play = play;
+    providerRef.current.pause = pause;
+    providerRef.current.isReady = isReady;
+    providerRef.current.cleanup = pause;
+  }, [play, pause, isReady]);
+
+  return providerRef.current;
+}
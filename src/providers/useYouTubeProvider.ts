@@ -1,6 +1,12 @@
 import { useEffect, useRef, useCallback, useState } from "react";
-import type { MediaProvider, YouTubePlayer, YouTubeWindow } from "../types";
-import { loadYouTubeApi } from "../utils";
+import type { MediaProvider, VideoSegment, YouTubePlayer, YouTubeWindow } from "../types";
+import {
+  loadYouTubeApi,
+  toVideoRequest,
+  hasSegment,
+  switchVideo,
+  fadeYouTubeVolume,
+} from "../utils";
 
 declare const window: YouTubeWindow;
 
@@ -14,7 +20,10 @@ declare const window: YouTubeWindow;
 // - Loading the IFrame API script (singleton, via loadYouTubeApi)
 // - Creating the YT.Player instance on a given DOM element ID
 // - Resizing the player to fill its container
-// - Video looping (when a video ends, it restarts)
+// - Video looping (when a video ends, it restarts). With a segment set
+//   (start/end points), only that segment is played and looped.
+// - Playlists: setPlaylistId loads a whole YouTube playlist instead, which
+//   plays through and starts over from the first video when it ends
 // - Bidirectional sync: the user clicking play/pause on the YouTube controls
 //   triggers callbacks (setOnUserPlay / setOnUserPause) that the pomodoro
 //   hook uses to start/stop the timer
@@ -22,7 +31,9 @@ declare const window: YouTubeWindow;
 //   pomodoro hook's play/pause calls and the onStateChange handler
 //
 // The hook returns the MediaProvider interface plus some extras the YouTube
-// session pages need (apiLoaded, videoId setter, player container ref).
+// session pages need (apiLoaded, videoId/playlistId setters, player
+// container ref). A video and a playlist are exclusive: setting one clears
+// the other.
 
 export interface UseYouTubeProviderOptions {
   // The DOM element ID where the player will be mounted (e.g. "yt-player-quick").
@@ -34,7 +45,11 @@ export interface UseYouTubeProviderResult {
   provider: MediaProvider;
   apiLoaded: boolean;
   videoId: string;
-  setVideoId: (id: string) => void;
+  setVideoId: (id: string, segment?: VideoSegment) => void;
+  videoSegment: VideoSegment;
+  setVideoSegment: (segment: VideoSegment) => void;
+  playlistId: string;
+  setPlaylistId: (id: string) => void;
   playerContainerRef: React.RefObject<HTMLDivElement | null>;
   playerRef: React.RefObject<YouTubePlayer | null>;
 }
@@ -45,7 +60,20 @@ export function useYouTubeProvider(
   const { elementId } = options;
 
   const [apiLoaded, setApiLoaded] = useState(false);
-  const [videoId, setVideoId] = useState("");
+  const [videoId, setVideoIdState] = useState("");
+  const [videoSegment, setVideoSegment] = useState<VideoSegment>({});
+  const [playlistId, setPlaylistIdState] = useState("");
+
+  const setVideoId = useCallback((id: string, segment: VideoSegment = {}) => {
+    setPlaylistIdState("");
+    setVideoIdState(id);
+    setVideoSegment(segment);
+  }, []);
+
+  const setPlaylistId = useCallback((id: string) => {
+    setVideoIdState("");
+    setPlaylistIdState(id);
+  }, []);
 
   const playerRef = useRef<YouTubePlayer | null>(null);
   const playerContainerRef = useRef<HTMLDivElement | null>(null);
@@ -57,6 +85,15 @@ export function useYouTubeProvider(
   const onUserPlayRef = useRef<(() => void) | null>(null);
   const onUserPauseRef = useRef<(() => void) | null>(null);
 
+  // Read by the player's onStateChange closure, which is created once
+  const videoIdRef = useRef(videoId);
+  const videoSegmentRef = useRef(videoSegment);
+  useEffect(() => { videoIdRef.current = videoId; }, [videoId]);
+  useEffect(() => { videoSegmentRef.current = videoSegment; }, [videoSegment]);
+  // The video the player currently has loaded, to tell a new video from a
+  // segment edit
+  const loadedVideoIdRef = useRef("");
+
   // Load the YouTube IFrame API script on mount
   useEffect(() => {
     loadYouTubeApi().then(() => setApiLoaded(true));
@@ -79,31 +116,60 @@ export function useYouTubeProvider(
     return () => window.removeEventListener("resize", handleResize);
   }, [resizePlayer]);
 
-  // Create or update the YouTube player when the video ID changes.
-  // If a player already exists, just load the new video. Otherwise create
-  // a new YT.Player on the target element.
+  // Create or update the YouTube player when the video, its segment or the
+  // playlist changes. If a player already exists, just load the new one.
+  // Otherwise create a new YT.Player on the target element.
+  const { startSeconds, endSeconds } = videoSegment;
   useEffect(() => {
-    if (!apiLoaded || !videoId) return;
+    if (!apiLoaded || (!videoId && !playlistId)) return;
+    const wasSameVideo = loadedVideoIdRef.current === videoId;
+    loadedVideoIdRef.current = videoId;
 
     if (playerRef.current) {
-      playerRef.current.loadVideoById(videoId);
+      const player = playerRef.current;
+      const request = toVideoRequest(videoId, { startSeconds, endSeconds });
+      if (playlistId) {
+        player.loadPlaylist({ list: playlistId, listType: "playlist" });
+      } else if (!wasSameVideo) {
+        player.loadVideoById(request);
+      } else {
+        // A segment edit shouldn't start or stop playback
+        switchVideo(player, request);
+      }
       resizePlayer();
     } else {
       playerRef.current = new window.YT.Player(elementId, {
-        videoId: videoId,
+        videoId: playlistId ? undefined : videoId,
         playerVars: {
           autoplay: 0,
           controls: 1,
           rel: 0,
+          ...(playlistId
+            ? { listType: "playlist" as const, list: playlistId }
+            : { start: startSeconds, end: endSeconds }),
         },
         events: {
           onReady: () => {
             resizePlayer();
           },
           onStateChange: (event) => {
-            // Loop video when it ends
+            // Loop when the video (or its segment) ends. In a playlist the
+            // player moves on by itself, so only the last video wraps back
+            // to the first.
             if (event.data === 0) {
-              event.target.playVideo();
+              const playlist = event.target.getPlaylist();
+              if (playlist) {
+                if (event.target.getPlaylistIndex() === playlist.length - 1) {
+                  event.target.playVideoAt(0);
+                }
+              } else if (hasSegment(videoSegmentRef.current)) {
+                // Reloading is what re-applies the end point
+                event.target.loadVideoById(
+                  toVideoRequest(videoIdRef.current, videoSegmentRef.current),
+                );
+              } else {
+                event.target.playVideo();
+              }
             }
 
             // Only sync with user actions if this wasn't a programmatic change
@@ -120,10 +186,11 @@ export function useYouTubeProvider(
         },
       });
     }
-    // We only want to create/update the player when apiLoaded or videoId changes,
-    // not when other things change, so we suppress the exhaustive-deps warning.
+    // We only want to create/update the player when apiLoaded, the video,
+    // its segment or playlistId changes, not when other things change, so we
+    // suppress the exhaustive-deps warning.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [apiLoaded, videoId, elementId]);
+  }, [apiLoaded, videoId, startSeconds, endSeconds, playlistId, elementId]);
 
   // ---- Build the MediaProvider interface ----
 
@@ -147,6 +214,11 @@ export function useYouTubeProvider(
     return !!playerRef.current?.playVideo;
   }, []);
 
+  const baseVolumeRef = useRef<number | null>(null);
+  const setVolume = useCallback((level: number) => {
+    if (playerRef.current) fadeYouTubeVolume(playerRef.current, level, baseVolumeRef);
+  }, []);
+
   const setOnUserPlay = useCallback((cb: (() => void) | null) => {
     onUserPlayRef.current = cb;
   }, []);
@@ -167,6 +239,7 @@ export function useYouTubeProvider(
     isReady,
     setOnUserPlay,
     setOnUserPause,
+    setVolume,
     cleanup,
   });
 
@@ -178,14 +251,19 @@ export function useYouTubeProvider(
     providerRef.current.isReady = isReady;
     providerRef.current.setOnUserPlay = setOnUserPlay;
     providerRef.current.setOnUserPause = setOnUserPause;
+    providerRef.current.setVolume = setVolume;
     providerRef.current.cleanup = cleanup;
-  }, [play, pause, isReady, setOnUserPlay, setOnUserPause, cleanup]);
+  }, [play, pause, isReady, setOnUserPlay, setOnUserPause, setVolume, cleanup]);
 
   return {
     provider: providerRef.current,
     apiLoaded,
     videoId,
     setVideoId,
+    videoSegment,
+    setVideoSegment,
+    playlistId,
+    setPlaylistId,
     playerContainerRef,
     playerRef,
   };
@@ -0,0 +1,113 @@
+import type { RadioStation } from "./types";
+
+// =============================================================================
+// Internet radio stations — persistence and playlist file parsing
+// =============================================================================
+//
+// Saved stations live in localStorage so they're shared between the quick and
+// planned radio pages. Stations can be added by hand (name + URL) or imported
+// from the .pls / .m3u playlist files that most radio sites offer as a
+// "listen" download — those are just text files pointing at the stream URL.
+
+const STORAGE_KEY = "pomodoro-radio-stations";
+const SELECTED_KEY = "pomodoro-radio-selected";
+
+export function loadStations(): RadioStation[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Failed to parse radio stations:", error);
+    return [];
+  }
+}
+
+export function saveStations(stations: RadioStation[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stations));
+}
+
+export function loadSelectedStationId(): string | null {
+  return localStorage.getItem(SELECTED_KEY);
+}
+
+export function saveSelectedStationId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(SELECTED_KEY, id);
+  } else {
+    localStorage.removeItem(SELECTED_KEY);
+  }
+}
+
+// Only http(s) URLs can be streamed by an <audio> element.
+export function isStreamUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Falls back to the host name when a playlist entry has no title.
+export function defaultStationName(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// --- Playlist parsing ---
+
+export interface PlaylistEntry {
+  name: string;
+  url: string;
+}
+
+// .pls is INI-style: File1=..., Title1=..., numbered per entry.
+function parsePls(text: string): PlaylistEntry[] {
+  const files = new Map<string, string>();
+  const titles = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^(File|Title)(\d+)=(.*)$/i);
+    if (!match) continue;
+    const [, key, index, value] = match;
+    (key.toLowerCase() === "file" ? files : titles).set(index, value.trim());
+  }
+  return [...files.entries()].map(([index, url]) => ({
+    url,
+    name: titles.get(index) || defaultStationName(url),
+  }));
+}
+
+// .m3u / .m3u8 lists one URL per line; "#EXTINF:<duration>,<title>" lines
+// optionally name the entry that follows. Other # lines are comments.
+function parseM3u(text: string): PlaylistEntry[] {
+  const entries: PlaylistEntry[] = [];
+  let pendingTitle: string | null = null;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith("#")) {
+      const info = line.match(/^#EXTINF:[^,]*,(.*)$/i);
+      if (info) pendingTitle = info[1].trim();
+      continue;
+    }
+    entries.push({ url: line, name: pendingTitle || defaultStationName(line) });
+    pendingTitle = null;
+  }
+  return entries;
+}
+
+// Parses a playlist file's contents into stream entries. The format is picked
+// by extension, falling back to sniffing for the "[playlist]" header. Entries
+// that aren't http(s) URLs (e.g. relative file paths) are dropped.
+export function parsePlaylist(fileName: string, text: string): PlaylistEntry[] {
+  const isPls =
+    fileName.toLowerCase().endsWith(".pls") ||
+    text.trimStart().toLowerCase().startsWith("[playlist]");
+  const entries = isPls ? parsePls(text) : parseM3u(text);
+  return entries.filter((entry) => isStreamUrl(entry.url));
+}
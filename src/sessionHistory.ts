@@ -0,0 +1,192 @@
+import type { IntervalLogEntry, MediaSource } from "./types";
+
+// =============================================================================
+// Session history — interval log in IndexedDB, plus the stats derived from it
+// =============================================================================
+//
+// usePomodoro appends one entry per finished or skipped interval. The log can
+// grow without bound over months of use, so it lives in IndexedDB rather than
+// localStorage, indexed by end time so the stats page can load a date range.
+//
+// All functions are fire-and-forget safe: failures (e.g. IndexedDB disabled in
+// a private window) are logged and never break the timer.
+
+const DB_NAME = "pomodoro-history";
+const DB_VERSION = 1;
+const STORE = "intervals";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      store.createIndex("endedAt", "endedAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry after a failed open
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+// Wraps a single-store transaction; resolves with the request's result once
+// the transaction commits.
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function logInterval(entry: IntervalLogEntry): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.add(entry));
+  } catch (error) {
+    console.error("Failed to log interval:", error);
+  }
+}
+
+// Entries that ended at or after `since` (epoch ms), oldest first.
+export async function loadIntervals(since = 0): Promise<IntervalLogEntry[]> {
+  try {
+    return await withStore("readonly", (store) =>
+      store.index("endedAt").getAll(IDBKeyRange.lowerBound(since)),
+    );
+  } catch (error) {
+    console.error("Failed to load interval history:", error);
+    return [];
+  }
+}
+
+export async function clearIntervals(): Promise<void> {
+  try {
+    await withStore("readwrite", (store) => store.clear());
+  } catch (error) {
+    console.error("Failed to clear interval history:", error);
+  }
+}
+
+// --- Statistics ---
+
+export interface DayBucket {
+  start: number; // local midnight, epoch ms
+  focusMinutes: number;
+}
+
+export interface SourceBreakdown {
+  source: MediaSource;
+  focusMinutes: number;
+  workIntervals: number;
+}
+
+export interface HistoryStats {
+  todayFocusMinutes: number;
+  weekFocusMinutes: number; // since Monday
+  daily: DayBucket[]; // last `days` days, oldest first
+  weekly: DayBucket[]; // last `weeks` Monday-start weeks, oldest first
+  // Share of work intervals that ran to the end rather than being skipped
+  completionRate: number | null;
+  // Share of all intervals (work and break) that were skipped
+  skipRate: number | null;
+  perSource: SourceBreakdown[]; // most focus time first
+}
+
+function startOfDay(time: number): number {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function startOfWeek(time: number): number {
+  const d = new Date(startOfDay(time));
+  // getDay(): Sunday = 0. Weeks start on Monday.
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+}
+
+// Adds whole days in local time, so DST changes don't shift bucket edges.
+function addDays(time: number, days: number): number {
+  const d = new Date(time);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+}
+
+// Earliest timestamp summarizeHistory needs for the given ranges.
+export function historyStartTime(now: number, days: number, weeks: number): number {
+  return Math.min(addDays(startOfDay(now), -(days - 1)), addDays(startOfWeek(now), -7 * (weeks - 1)));
+}
+
+export function summarizeHistory(
+  entries: IntervalLogEntry[],
+  now: number,
+  days = 7,
+  weeks = 8,
+): HistoryStats {
+  const today = startOfDay(now);
+  const thisWeek = startOfWeek(now);
+
+  const daily: DayBucket[] = Array.from({ length: days }, (_, i) => ({
+    start: addDays(today, i - (days - 1)),
+    focusMinutes: 0,
+  }));
+  const weekly: DayBucket[] = Array.from({ length: weeks }, (_, i) => ({
+    start: addDays(thisWeek, 7 * (i - (weeks - 1))),
+    focusMinutes: 0,
+  }));
+
+  const bySource = new Map<MediaSource, SourceBreakdown>();
+  let workCount = 0;
+  let workCompleted = 0;
+  let skippedCount = 0;
+
+  for (const entry of entries) {
+    if (entry.skipped) skippedCount++;
+    if (entry.type !== "work") continue;
+
+    workCount++;
+    if (!entry.skipped) workCompleted++;
+
+    const minutes = entry.actualSeconds / 60;
+    const day = daily.find((b) => b.start === startOfDay(entry.endedAt));
+    if (day) day.focusMinutes += minutes;
+    const week = weekly.find((b) => b.start === startOfWeek(entry.endedAt));
+    if (week) week.focusMinutes += minutes;
+
+    const source = bySource.get(entry.source) ?? {
+      source: entry.source,
+      focusMinutes: 0,
+      workIntervals: 0,
+    };
+    source.focusMinutes += minutes;
+    source.workIntervals++;
+    bySource.set(entry.source, source);
+  }
+
+  return {
+    todayFocusMinutes: daily[days - 1]?.focusMinutes ?? 0,
+    weekFocusMinutes: weekly[weeks - 1]?.focusMinutes ?? 0,
+    daily,
+    weekly,
+    completionRate: workCount > 0 ? workCompleted / workCount : null,
+    skipRate: entries.length > 0 ? skippedCount / entries.length : null,
+    perSource: [...bySource.values()].sort((a, b) => b.focusMinutes - a.focusMinutes),
+  };
+}
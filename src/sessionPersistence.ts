@@ -0,0 +1,76 @@
+import type { PomodoroSnapshot, SavedSession } from "./types";
+import { advanceInterval } from "./timerMachine";
+
+const STORAGE_PREFIX = "pomodoro-session-";
+
+// Persists the running session for each page (e.g. "youtube-quick") in
+// localStorage so that a reload or browser crash doesn't lose the user's
+// place. usePomodoro writes a snapshot on every transition; the session
+// pages read it on mount and offer to resume.
+
+export function loadSession(key: string): SavedSession | null {
+  const saved = localStorage.getItem(STORAGE_PREFIX + key);
+  if (!saved) return null;
+  try {
+    const session = JSON.parse(saved) as SavedSession;
+    if (session?.version !== 1 || !session.timer) return null;
+    return session;
+  } catch (error) {
+    console.error("Failed to parse saved session:", error);
+    return null;
+  }
+}
+
+// Like loadSession, but drops sessions that would have completed while the
+// page was closed — there is nothing left to resume.
+export function loadResumableSession(key: string): SavedSession | null {
+  const session = loadSession(key);
+  if (!session) return null;
+  if (fastForwardSnapshot(session.timer, Date.now()).timerComplete) {
+    clearSession(key);
+    return null;
+  }
+  return session;
+}
+
+export function saveSession(key: string, session: SavedSession): void {
+  localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(session));
+}
+
+export function clearSession(key: string): void {
+  localStorage.removeItem(STORAGE_PREFIX + key);
+}
+
+// Replays the transitions that would have happened between the snapshot and
+// `now` if the page had stayed open, stepping with the timer machine's
+// advanceInterval. Each interval's end is derived from the previous one's,
+// so a session left running over lunch lands on the interval it would be in
+// now, with timeLeft recomputed from the end timestamp. Paused snapshots are
+// returned unchanged.
+export function fastForwardSnapshot(
+  snapshot: PomodoroSnapshot,
+  now: number,
+): PomodoroSnapshot {
+  if (!snapshot.isRunning || snapshot.timerComplete) return snapshot;
+
+  let s: PomodoroSnapshot = { ...snapshot };
+  while (s.isRunning && s.endTime <= now) {
+    const { state: next, durationMinutes } = advanceInterval(s);
+    s = next;
+    if (s.timerComplete) break;
+
+    // Guard against a corrupt snapshot (NaN / zero durations) spinning forever
+    if (!(durationMinutes > 0)) {
+      s.isRunning = false;
+      break;
+    }
+    s.endTime += durationMinutes * 60 * 1000;
+  }
+
+  s.timeLeft = s.timerComplete
+    ? 0
+    : s.isRunning
+      ? Math.max(0, Math.ceil((s.endTime - now) / 1000))
+      : s.timeLeft;
+  return s;
+}
@@ -0,0 +1,37 @@
+import type { MediaSource } from "./types";
+
+// Display metadata for each media source: the name shown in the session
+// header, its accent dot colour, and a one-line description. Used by
+// SourceLayout and the stats page.
+export const SOURCE_CONFIG: Record<MediaSource, { label: string; accentDot: string; description: string }> = {
+  youtube: {
+    label: "YouTube",
+    accentDot: "bg-red-500",
+    description: "Plays your chosen YouTube video only while you work.",
+  },
+  spotify: {
+    label: "Spotify",
+    accentDot: "bg-green-500",
+    description: "Plays your Spotify music during work and pauses for breaks.",
+  },
+  nts: {
+    label: "NTS Radio",
+    accentDot: "bg-white border border-slate-400",
+    description: "Streams NTS Radio live during work sessions.",
+  },
+  radio: {
+    label: "Radio",
+    accentDot: "bg-sky-500",
+    description: "Streams your saved internet radio stations during work sessions.",
+  },
+  noise: {
+    label: "Ambient Noise",
+    accentDot: "bg-indigo-400",
+    description: "Fades synthesised noise in during work and out during breaks.",
+  },
+  local: {
+    label: "Local Files",
+    accentDot: "bg-amber-500",
+    description: "Plays audio files from your computer during work sessions.",
+  },
+};
@@ -0,0 +1,135 @@
+// =============================================================================
+// Service worker — offline app shell
+// =============================================================================
+//
+// Built as its own Rollup entry (see vite.config.ts) and emitted unhashed as
+// /sw.js. At build time the precache plugin replaces __PRECACHE_MANIFEST__
+// with the list of emitted files and __PRECACHE_VERSION__ with a hash of
+// them, so every deploy produces a byte-different worker and the browser
+// picks it up as an update.
+//
+// Strategy:
+// - install: precache the app shell (index.html, JS, CSS, bundled assets)
+//   into a versioned cache. The new worker then waits — it only takes over
+//   when the page asks it to (the "update available" prompt), so an open
+//   session never swaps code underneath itself.
+// - activate: drop caches from older versions and claim open pages.
+// - fetch: navigations get the cached index.html (the same SPA fallback the
+//   vercel.json rewrites provide online). Other same-origin GETs are served
+//   from the precache, or network-first with a runtime cache for public/
+//   files like icons and the manifest. Cross-origin requests (YouTube,
+//   Spotify, radio streams) are left alone.
+//
+// This file runs in the worker global scope, not the page. The app's
+// tsconfig only has the DOM lib, so the few worker types we need are
+// declared below.
+
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+interface ExtendableEventLike extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEventLike extends ExtendableEventLike {
+  request: Request;
+  respondWith(response: Response | Promise<Response>): void;
+}
+
+interface ExtendableMessageEventLike extends ExtendableEventLike {
+  data: unknown;
+}
+
+interface ServiceWorkerScopeLike {
+  location: Location;
+  registration: { scope: string };
+  clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: "install" | "activate", listener: (e: ExtendableEventLike) => void): void;
+  addEventListener(type: "fetch", listener: (e: FetchEventLike) => void): void;
+  addEventListener(type: "message", listener: (e: ExtendableMessageEventLike) => void): void;
+}
+
+const sw = self as unknown as ServiceWorkerScopeLike;
+
+const CACHE_PREFIX = "pomodoro-shell-";
+const CACHE_NAME = `${CACHE_PREFIX}${__PRECACHE_VERSION__}`;
+const RUNTIME_CACHE = "pomodoro-runtime";
+
+const scopeUrl = (path: string) => new URL(path, sw.registration.scope).href;
+const SHELL_URL = scopeUrl("index.html");
+const PRECACHE_URLS = new Set(__PRECACHE_MANIFEST__.map(scopeUrl));
+
+// --- Lifecycle ---
+
+sw.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll([...PRECACHE_URLS])),
+  );
+});
+
+sw.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map((key) => caches.delete(key)),
+      );
+      await sw.clients.claim();
+    })(),
+  );
+});
+
+// Sent by the page when the user accepts the update prompt
+sw.addEventListener("message", (event) => {
+  if ((event.data as { type?: string } | null)?.type === "SKIP_WAITING") {
+    sw.skipWaiting();
+  }
+});
+
+// --- Fetch ---
+
+async function fromShell(): Promise<Response> {
+  const cached = await caches.match(SHELL_URL, { cacheName: CACHE_NAME });
+  return cached ?? fetch(SHELL_URL);
+}
+
+async function networkFirst(request: Request): Promise<Response> {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+sw.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== sw.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(fromShell());
+    return;
+  }
+
+  // Precached files are matched by path, ignoring any query string
+  url.search = "";
+  if (PRECACHE_URLS.has(url.href)) {
+    event.respondWith(
+      caches
+        .match(url.href, { cacheName: CACHE_NAME })
+        .then((cached) => cached ?? fetch(request)),
+    );
+    return;
+  }
+
+  event.respondWith(networkFirst(request));
+});
@@ -0,0 +1,78 @@
+import type { TaskList } from "./types";
+
+// =============================================================================
+// Tasks — the persisted task list and pomodoro crediting
+// =============================================================================
+//
+// The task list lives in localStorage under one key, so the same tasks show
+// up on every source's pages and survive reloads. Two writers share it: the
+// task panel (through useTasks) and usePomodoro, which calls
+// creditActiveTask() whenever a work interval runs to completion. Both go
+// through saveTaskList(), which notifies subscribers in this tab; other tabs
+// hear about changes through the storage event.
+
+const STORAGE_KEY = "pomodoro-tasks";
+
+const EMPTY_TASK_LIST: TaskList = { tasks: [], activeTaskId: null };
+
+export function loadTaskList(): TaskList {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return EMPTY_TASK_LIST;
+  try {
+    const parsed = JSON.parse(saved) as Partial<TaskList>;
+    const tasks = Array.isArray(parsed.tasks) ? parsed.tasks : [];
+    const activeTaskId = tasks.some((t) => t.id === parsed.activeTaskId)
+      ? parsed.activeTaskId ?? null
+      : null;
+    return { tasks, activeTaskId };
+  } catch (error) {
+    console.error("Failed to parse task list:", error);
+    return EMPTY_TASK_LIST;
+  }
+}
+
+// --- Change notification ---
+
+const listeners = new Set<(list: TaskList) => void>();
+
+export function saveTaskList(list: TaskList): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  listeners.forEach((listener) => listener(list));
+}
+
+// Calls `listener` with the new list whenever it changes, in this tab or
+// another. Returns the unsubscribe function.
+export function subscribeTaskList(listener: (list: TaskList) => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener(loadTaskList());
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+// Applies `change` to the latest stored list and saves the result. Reading
+// from storage rather than a component's state means a credit from the
+// timer and an edit in the panel can't overwrite each other.
+export function updateTaskList(change: (list: TaskList) => TaskList): void {
+  saveTaskList(change(loadTaskList()));
+}
+
+// --- Crediting ---
+
+// Adds one completed pomodoro to the active task, if there is one.
+export function creditActiveTask(): void {
+  const list = loadTaskList();
+  if (!list.activeTaskId) return;
+  saveTaskList({
+    ...list,
+    tasks: list.tasks.map((t) =>
+      t.id === list.activeTaskId
+        ? { ...t, completedPomodoros: t.completedPomodoros + 1 }
+        : t,
+    ),
+  });
+}
@@ -0,0 +1,535 @@
+import { describe, it, expect } from "vitest";
+import type { Clock, FlatInterval, TimerAction, TimerState, TimerStep } from "./types";
+import {
+  advanceInterval,
+  createTimerState,
+  stepTimer,
+  toSyncedState,
+} from "./timerMachine";
+import { fastForwardSnapshot } from "./sessionPersistence";
+
+// =============================================================================
+// Timer machine tests
+// =============================================================================
+//
+// Drives stepTimer with a fake clock, so every transition can be checked
+// without timers or React. Quick-mode defaults are 25/5 ×4 with a 15 minute
+// long break every 4th pomodoro.
+
+const T0 = 1_000_000;
+const MIN = 60_000;
+const SEC = 1000;
+
+// A clock that only moves when told to
+function fakeClock(start = T0): Clock & { advance: (ms: number) => void } {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms) => { now += ms; },
+  };
+}
+
+const work = (durationMinutes: number): FlatInterval => ({ type: "work", durationMinutes, blockIndex: 0 });
+const rest = (durationMinutes: number): FlatInterval => ({ type: "break", durationMinutes, blockIndex: 0 });
+
+// Applies actions in order with one clock, returning the last step
+function run(state: TimerState, clock: Clock, ...actions: TimerAction[]): TimerStep {
+  let step: TimerStep = { state, effects: [] };
+  for (const action of actions) step = stepTimer(step.state, action, clock);
+  return step;
+}
+
+describe("toggle", () => {
+  it("starts the countdown from timeLeft", () => {
+    const clock = fakeClock();
+    const { state, effects } = run(createTimerState("quick"), clock, { type: "toggle" });
+    expect(state.isRunning).toBe(true);
+    expect(state.hasBeenStarted).toBe(true);
+    expect(state.endTime).toBe(T0 + 25 * MIN);
+    expect(state.intervalStartedAt).toBe(T0);
+    expect(effects).toEqual([]);
+  });
+
+  it("pauses with the remaining time and resumes from it", () => {
+    const clock = fakeClock();
+    let { state } = run(createTimerState("quick"), clock, { type: "toggle" });
+    clock.advance(MIN);
+    ({ state } = run(state, clock, { type: "toggle" }));
+    expect(state.isRunning).toBe(false);
+    expect(state.timeLeft).toBe(24 * 60);
+
+    clock.advance(MIN);
+    ({ state } = run(state, clock, { type: "toggle" }));
+    expect(state.isRunning).toBe(true);
+    expect(state.endTime).toBe(T0 + 2 * MIN + 24 * MIN);
+    // Still the same interval
+    expect(state.intervalStartedAt).toBe(T0);
+  });
+
+  it("doesn't count a planned timer before its plan is started", () => {
+    const { state } = run(createTimerState("planned"), fakeClock(), { type: "toggle" });
+    expect(state.isRunning).toBe(true);
+    expect(state.endTime).toBe(0);
+    expect(state.intervalStartedAt).toBeNull();
+  });
+
+  it("rewinds and restarts a completed session", () => {
+    const clock = fakeClock();
+    const start = run(createTimerState("quick"), clock,
+      { type: "setting", key: "totalPomodoros", value: 1 },
+      { type: "toggle" },
+      { type: "skip" },
+    ).state;
+    expect(start.timerComplete).toBe(true);
+
+    clock.advance(MIN);
+    const { state } = run(start, clock, { type: "toggle" });
+    expect(state.timerComplete).toBe(false);
+    expect(state.isRunning).toBe(true);
+    expect(state.isWorking).toBe(true);
+    expect(state.currentPomodoro).toBe(0);
+    expect(state.timeLeft).toBe(25 * 60);
+    expect(state.endTime).toBe(T0 + MIN + 25 * MIN);
+  });
+
+  it("rewinds a completed planned session to its first interval", () => {
+    const clock = fakeClock();
+    const { state } = run(createTimerState("planned"), clock,
+      { type: "startPlanned", intervals: [rest(2), work(10)] },
+      { type: "toggle" },
+      { type: "skip" },
+      { type: "skip" },
+      { type: "toggle" },
+    );
+    expect(state.currentIntervalIndex).toBe(0);
+    expect(state.isWorking).toBe(false);
+    expect(state.timeLeft).toBe(2 * 60);
+    expect(state.isRunning).toBe(true);
+  });
+});
+
+describe("setRunning", () => {
+  it("ignores a request for the current state", () => {
+    const initial = createTimerState("quick");
+    expect(stepTimer(initial, { type: "setRunning", running: false }, fakeClock()).state).toBe(initial);
+  });
+
+  it("plays and pauses like toggle", () => {
+    const clock = fakeClock();
+    let { state } = run(createTimerState("quick"), clock, { type: "setRunning", running: true });
+    expect(state.isRunning).toBe(true);
+    expect(state.endTime).toBe(T0 + 25 * MIN);
+
+    clock.advance(30 * SEC);
+    ({ state } = run(state, clock, { type: "setRunning", running: false }));
+    expect(state.isRunning).toBe(false);
+    expect(state.timeLeft).toBe(25 * 60 - 30);
+  });
+
+  it("doesn't restart a completed session", () => {
+    const complete = run(createTimerState("quick"), fakeClock(),
+      { type: "setting", key: "totalPomodoros", value: 1 },
+      { type: "toggle" },
+      { type: "skip" },
+    ).state;
+    expect(stepTimer(complete, { type: "setRunning", running: true }, fakeClock()).state).toBe(complete);
+  });
+});
+
+describe("tick", () => {
+  it("recomputes timeLeft from endTime, rounding up", () => {
+    const clock = fakeClock();
+    let { state } = run(createTimerState("quick"), clock, { type: "toggle" });
+    clock.advance(10 * SEC + 400);
+    ({ state } = run(state, clock, { type: "tick" }));
+    expect(state.timeLeft).toBe(25 * 60 - 10);
+  });
+
+  it("returns the same state when nothing changed", () => {
+    const clock = fakeClock();
+    const started = run(createTimerState("quick"), clock, { type: "toggle" }).state;
+    clock.advance(200);
+    expect(stepTimer(started, { type: "tick" }, clock).state).toBe(started);
+  });
+
+  it("does nothing while paused", () => {
+    const initial = createTimerState("quick");
+    const step = stepTimer(initial, { type: "tick" }, fakeClock());
+    expect(step.state).toBe(initial);
+    expect(step.effects).toEqual([]);
+  });
+
+  it("ends the interval at endTime, logging and announcing it", () => {
+    const clock = fakeClock();
+    const started = run(createTimerState("quick"), clock, { type: "toggle" }).state;
+    clock.advance(25 * MIN);
+    const { state, effects } = run(started, clock, { type: "tick" });
+
+    expect(state.isWorking).toBe(false);
+    expect(state.isRunning).toBe(true);
+    expect(state.currentPomodoro).toBe(1);
+    expect(state.timeLeft).toBe(5 * 60);
+    expect(state.endTime).toBe(T0 + 30 * MIN);
+    expect(state.intervalStartedAt).toBe(T0 + 25 * MIN);
+    expect(effects).toEqual([
+      {
+        type: "intervalEnded",
+        interval: {
+          type: "work",
+          plannedSeconds: 25 * 60,
+          actualSeconds: 25 * 60,
+          startedAt: T0,
+          endedAt: T0 + 25 * MIN,
+          skipped: false,
+        },
+      },
+      { type: "notify", transition: "workToBreak", durationMinutes: 5 },
+    ]);
+  });
+
+  it("handles a late tick after endTime", () => {
+    const clock = fakeClock();
+    const started = run(createTimerState("quick"), clock, { type: "toggle" }).state;
+    clock.advance(25 * MIN + 3 * SEC);
+    const { state, effects } = run(started, clock, { type: "tick" });
+    expect(state.isWorking).toBe(false);
+    // The next interval runs from when the tick arrived
+    expect(state.endTime).toBe(T0 + 25 * MIN + 3 * SEC + 5 * MIN);
+    expect(effects.map((e) => e.type)).toEqual(["intervalEnded", "notify"]);
+  });
+
+  it("announces a break ending", () => {
+    const clock = fakeClock();
+    let { state } = run(createTimerState("quick"), clock, { type: "toggle" });
+    clock.advance(25 * MIN);
+    ({ state } = run(state, clock, { type: "tick" }));
+    clock.advance(5 * MIN);
+    const step = run(state, clock, { type: "tick" });
+    expect(step.state.isWorking).toBe(true);
+    expect(step.effects[1]).toEqual({ type: "notify", transition: "breakToWork", durationMinutes: 25 });
+  });
+
+  it("completes the session after the last interval", () => {
+    const clock = fakeClock();
+    const started = run(createTimerState("planned"), clock,
+      { type: "startPlanned", intervals: [work(1)] },
+      { type: "toggle" },
+    ).state;
+    clock.advance(MIN);
+    const { state, effects } = run(started, clock, { type: "tick" });
+    expect(state.timerComplete).toBe(true);
+    expect(state.isRunning).toBe(false);
+    expect(state.timeLeft).toBe(0);
+    expect(effects[1]).toEqual({ type: "notify", transition: "sessionComplete" });
+  });
+});
+
+describe("skip", () => {
+  it("ends the interval early without announcing it", () => {
+    const clock = fakeClock();
+    const started = run(createTimerState("quick"), clock, { type: "toggle" }).state;
+    clock.advance(10 * MIN);
+    const { state, effects } = run(started, clock, { type: "skip" });
+
+    expect(state.isWorking).toBe(false);
+    expect(state.isRunning).toBe(true);
+    expect(state.endTime).toBe(T0 + 10 * MIN + 5 * MIN);
+    expect(effects).toEqual([
+      {
+        type: "intervalEnded",
+        interval: {
+          type: "work",
+          plannedSeconds: 25 * 60,
+          actualSeconds: 10 * 60,
+          startedAt: T0,
+          endedAt: T0 + 10 * MIN,
+          skipped: true,
+        },
+      },
+    ]);
+  });
+
+  it("backdates an interval skipped before it ever ran", () => {
+    const clock = fakeClock();
+    const { effects } = run(createTimerState("quick"), clock, { type: "skip" });
+    expect(effects[0]).toMatchObject({
+      type: "intervalEnded",
+      interval: { actualSeconds: 0, startedAt: T0, endedAt: T0, skipped: true },
+    });
+  });
+
+  it("completes the session on the last quick pomodoro", () => {
+    const clock = fakeClock();
+    const { state, effects } = run(createTimerState("quick"), clock,
+      { type: "setting", key: "totalPomodoros", value: 2 },
+      { type: "toggle" },
+      { type: "skip" }, // work 1
+      { type: "skip" }, // break
+      { type: "skip" }, // work 2, the last
+    );
+    expect(state.timerComplete).toBe(true);
+    expect(state.isRunning).toBe(false);
+    expect(state.timeLeft).toBe(0);
+    expect(effects.map((e) => e.type)).toEqual(["intervalEnded"]);
+  });
+
+  it("completes the session on the last planned interval", () => {
+    const clock = fakeClock();
+    const { state, effects } = run(createTimerState("planned"), clock,
+      { type: "startPlanned", intervals: [work(10), rest(2)] },
+      { type: "toggle" },
+      { type: "skip" },
+      { type: "skip" },
+    );
+    expect(state.timerComplete).toBe(true);
+    expect(state.isRunning).toBe(false);
+    expect(effects.map((e) => e.type)).toEqual(["intervalEnded"]);
+  });
+
+  it("does nothing once the session is complete", () => {
+    const complete = run(createTimerState("quick"), fakeClock(),
+      { type: "setting", key: "totalPomodoros", value: 1 },
+      { type: "skip" },
+    ).state;
+    expect(complete.timerComplete).toBe(true);
+    const step = stepTimer(complete, { type: "skip" }, fakeClock());
+    expect(step.state).toBe(complete);
+    expect(step.effects).toEqual([]);
+  });
+
+  it("does nothing before a plan is started", () => {
+    const initial = createTimerState("planned");
+    expect(stepTimer(initial, { type: "skip" }, fakeClock()).state).toBe(initial);
+  });
+});
+
+describe("reset", () => {
+  it("goes back to the first pomodoro, stopped and untouched", () => {
+    const clock = fakeClock();
+    const { state } = run(createTimerState("quick"), clock,
+      { type: "toggle" },
+      { type: "skip" },
+      { type: "reset" },
+    );
+    expect(state.isRunning).toBe(false);
+    expect(state.isWorking).toBe(true);
+    expect(state.currentPomodoro).toBe(0);
+    expect(state.timeLeft).toBe(25 * 60);
+    expect(state.hasBeenStarted).toBe(false);
+    expect(state.intervalStartedAt).toBeNull();
+  });
+
+  it("keeps a planned session's intervals", () => {
+    const { state } = run(createTimerState("planned"), fakeClock(),
+      { type: "startPlanned", intervals: [work(10), rest(2)] },
+      { type: "toggle" },
+      { type: "skip" },
+      { type: "reset" },
+    );
+    expect(state.currentIntervalIndex).toBe(0);
+    expect(state.isWorking).toBe(true);
+    expect(state.timeLeft).toBe(10 * 60);
+    expect(state.flatIntervals).toHaveLength(2);
+    expect(state.isPlannedRunning).toBe(true);
+  });
+});
+
+describe("startPlanned / cancelPlanned", () => {
+  it("loads the plan, paused on its first interval", () => {
+    const intervals = [rest(3), work(20)];
+    const { state } = run(createTimerState("planned"), fakeClock(),
+      { type: "startPlanned", intervals },
+    );
+    expect(state.flatIntervals).toBe(intervals);
+    expect(state.currentIntervalIndex).toBe(0);
+    expect(state.isWorking).toBe(false);
+    expect(state.timeLeft).toBe(3 * 60);
+    expect(state.isPlannedRunning).toBe(true);
+    expect(state.isRunning).toBe(false);
+    expect(state.timerComplete).toBe(false);
+  });
+
+  it("cancelling drops the plan and stops the timer", () => {
+    const { state } = run(createTimerState("planned"), fakeClock(),
+      { type: "startPlanned", intervals: [work(10), rest(2)] },
+      { type: "toggle" },
+      { type: "skip" },
+      { type: "cancelPlanned" },
+    );
+    expect(state.isPlannedRunning).toBe(false);
+    expect(state.isRunning).toBe(false);
+    expect(state.hasBeenStarted).toBe(false);
+    expect(state.flatIntervals).toEqual([]);
+    expect(state.currentIntervalIndex).toBe(0);
+    expect(state.intervalStartedAt).toBeNull();
+  });
+});
+
+describe("preset / setting", () => {
+  it("applies a preset to an idle timer straight away", () => {
+    const { state } = run(createTimerState("quick"), fakeClock(),
+      { type: "preset", workMinutes: 50, breakMinutes: 10 },
+    );
+    expect(state.workMinutes).toBe(50);
+    expect(state.breakMinutes).toBe(10);
+    expect(state.isWorking).toBe(true);
+    expect(state.timeLeft).toBe(50 * 60);
+  });
+
+  it("leaves a running timer's countdown alone", () => {
+    const clock = fakeClock();
+    let { state } = run(createTimerState("quick"), clock, { type: "toggle" });
+    clock.advance(MIN);
+    ({ state } = run(state, clock, { type: "tick" }));
+    ({ state } = run(state, clock,
+      { type: "preset", workMinutes: 50, breakMinutes: 10 },
+      { type: "setting", key: "workMinutes", value: 40 },
+    ));
+    expect(state.workMinutes).toBe(40);
+    expect(state.timeLeft).toBe(24 * 60);
+    expect(state.endTime).toBe(T0 + 25 * MIN);
+  });
+
+  it("updates an untouched idle timer's display", () => {
+    const { state } = run(createTimerState("quick"), fakeClock(),
+      { type: "setting", key: "workMinutes", value: 30 },
+    );
+    expect(state.timeLeft).toBe(30 * 60);
+  });
+
+  it("keeps a paused timer's place", () => {
+    const clock = fakeClock();
+    let { state } = run(createTimerState("quick"), clock, { type: "toggle" });
+    clock.advance(MIN);
+    ({ state } = run(state, clock,
+      { type: "toggle" },
+      { type: "setting", key: "workMinutes", value: 30 },
+    ));
+    expect(state.workMinutes).toBe(30);
+    expect(state.timeLeft).toBe(24 * 60);
+  });
+});
+
+describe("resume", () => {
+  it("takes over a running snapshot with its end timestamp", () => {
+    const clock = fakeClock();
+    const saved = run(createTimerState("quick"), clock, { type: "toggle" }).state;
+    clock.advance(MIN);
+    const { state } = run(createTimerState("quick"), clock,
+      { type: "resume", snapshot: toSyncedState(saved) },
+    );
+    expect(state.isRunning).toBe(true);
+    expect(state.endTime).toBe(T0 + 25 * MIN);
+    expect(state.hasBeenStarted).toBe(true);
+    expect(state.intervalStartedAt).toBe(T0 + MIN);
+    expect(state.isPlannedRunning).toBe(false);
+  });
+
+  it("restores a paused planned snapshot as a started plan", () => {
+    const saved = run(createTimerState("planned"), fakeClock(),
+      { type: "startPlanned", intervals: [work(10), rest(2)] },
+      { type: "skip" },
+    ).state;
+    const { state } = run(createTimerState("planned"), fakeClock(),
+      { type: "resume", snapshot: toSyncedState(saved) },
+    );
+    expect(state.isPlannedRunning).toBe(true);
+    expect(state.isRunning).toBe(false);
+    expect(state.currentIntervalIndex).toBe(1);
+    expect(state.intervalStartedAt).toBeNull();
+  });
+});
+
+describe("advanceInterval", () => {
+  it("gives every longBreakInterval-th break the long length", () => {
+    let state = {
+      ...createTimerState("quick"),
+      totalPomodoros: 9,
+      longBreakInterval: 4,
+    };
+    const breaks: number[] = [];
+    while (!state.timerComplete) {
+      const next = advanceInterval(state);
+      if (!next.state.isWorking && !next.state.timerComplete) {
+        breaks.push(next.durationMinutes);
+        expect(next.state.isLongBreak).toBe(next.durationMinutes === 15);
+      }
+      state = next.state;
+    }
+    expect(breaks).toEqual([5, 5, 5, 15, 5, 5, 5, 15]);
+  });
+
+  it("ends a default session with the long break after the 4th pomodoro", () => {
+    let state = createTimerState("quick");
+    const breaks: boolean[] = [];
+    while (!state.timerComplete) {
+      const next = advanceInterval(state);
+      if (!next.state.isWorking && !next.state.timerComplete) {
+        breaks.push(next.state.isLongBreak);
+      }
+      state = next.state;
+    }
+    expect(breaks).toEqual([false, false, false, true]);
+  });
+
+  it("completes straight after the last pomodoro when it has no long break", () => {
+    const state = { ...createTimerState("quick"), totalPomodoros: 3, currentPomodoro: 2 };
+    expect(advanceInterval(state).state.timerComplete).toBe(true);
+  });
+
+  it("never takes a long break when the interval is 0", () => {
+    const state = { ...createTimerState("quick"), totalPomodoros: 8, longBreakInterval: 0, currentPomodoro: 3 };
+    const next = advanceInterval(state);
+    expect(next.state.isLongBreak).toBe(false);
+    expect(next.durationMinutes).toBe(5);
+  });
+
+  it("returns to work after a break", () => {
+    const state = { ...createTimerState("quick"), totalPomodoros: 8, isWorking: false, isLongBreak: true, currentPomodoro: 4 };
+    const next = advanceInterval(state);
+    expect(next.state.isWorking).toBe(true);
+    expect(next.state.isLongBreak).toBe(false);
+    expect(next.state.currentPomodoro).toBe(4);
+    expect(next.durationMinutes).toBe(25);
+  });
+});
+
+describe("fastForwardSnapshot", () => {
+  const running = () => {
+    const state = run(createTimerState("quick"), fakeClock(), { type: "toggle" }).state;
+    return toSyncedState(state);
+  };
+
+  it("returns a paused snapshot unchanged", () => {
+    const paused = toSyncedState(createTimerState("quick"));
+    expect(fastForwardSnapshot(paused, T0 + 60 * MIN)).toBe(paused);
+  });
+
+  it("recomputes timeLeft within the same interval", () => {
+    const s = fastForwardSnapshot(running(), T0 + 10 * MIN);
+    expect(s.isWorking).toBe(true);
+    expect(s.timeLeft).toBe(15 * 60);
+  });
+
+  it("lands on the interval the session would be in now", () => {
+    // 25 work + 5 break, then 2 minutes into the second pomodoro
+    const s = fastForwardSnapshot(running(), T0 + 32 * MIN);
+    expect(s.isWorking).toBe(true);
+    expect(s.currentPomodoro).toBe(1);
+    expect(s.endTime).toBe(T0 + 55 * MIN);
+    expect(s.timeLeft).toBe(23 * 60);
+  });
+
+  it("completes a session that would have finished", () => {
+    const s = fastForwardSnapshot(running(), T0 + 24 * 60 * MIN);
+    expect(s.timerComplete).toBe(true);
+    expect(s.isRunning).toBe(false);
+    expect(s.timeLeft).toBe(0);
+  });
+
+  it("stops on a zero-length interval instead of looping", () => {
+    const s = fastForwardSnapshot({ ...running(), breakMinutes: 0 }, T0 + 60 * MIN);
+    expect(s.isRunning).toBe(false);
+    expect(s.isWorking).toBe(false);
+  });
+});
@@ -0,0 +1,373 @@
+import type {
+  Clock,
+  PomodoroSnapshot,
+  SessionMode,
+  SyncedTimerState,
+  TimerAction,
+  TimerEffect,
+  TimerState,
+  TimerStep,
+} from "./types";
+
+// =============================================================================
+// Timer machine — the pomodoro timer as a pure state machine
+// =============================================================================
+//
+// All of the timer's transition rules live here: starting and pausing,
+// counting down, moving work→break→work (quick mode) or through a planned
+// interval list, skipping, resetting and completing. stepTimer() takes the
+// current state and an action and returns the next state plus any side
+// effects (a finished interval to log, a transition to announce) for the
+// caller to perform. It has no React, DOM or storage dependencies.
+//
+// Time comes from an injected Clock, read once per step. The countdown is
+// timestamp-based: starting records endTime = now + timeLeft, and each tick
+// recomputes timeLeft from endTime, so late or missed ticks never drift.
+//
+// usePomodoro wraps the machine: it holds the state, dispatches actions from
+// the UI and the tick scheduler, and carries out the effects.
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+export interface TimerStateOptions {
+  longBreakMinutes?: number;
+  longBreakInterval?: number;
+}
+
+export function createTimerState(
+  mode: SessionMode,
+  options: TimerStateOptions = {},
+): TimerState {
+  return {
+    mode,
+    workMinutes: 25,
+    breakMinutes: 5,
+    totalPomodoros: 4,
+    longBreakMinutes: options.longBreakMinutes ?? 15,
+    longBreakInterval: options.longBreakInterval ?? 4,
+    isRunning: false,
+    isWorking: true,
+    isLongBreak: false,
+    timerComplete: false,
+    currentPomodoro: 0,
+    currentIntervalIndex: 0,
+    flatIntervals: [],
+    endTime: 0,
+    timeLeft: 25 * 60,
+    isPlannedRunning: false,
+    hasBeenStarted: false,
+    intervalStartedAt: null,
+  };
+}
+
+// --- Queries ---
+
+// Whether the clock is actually counting down. A planned timer only counts
+// once its plan has been started.
+export function isCounting(state: TimerState): boolean {
+  return (
+    state.isRunning &&
+    !state.timerComplete &&
+    (state.mode === "quick" || state.isPlannedRunning)
+  );
+}
+
+// Seconds left in the current interval as of `now`
+export function remainingSeconds(state: TimerState, now: number): number {
+  return isCounting(state)
+    ? Math.max(0, Math.ceil((state.endTime - now) / 1000))
+    : state.timeLeft;
+}
+
+// Full length of the current interval in seconds
+export function intervalSeconds(
+  state: Omit<PomodoroSnapshot, "endTime">,
+): number {
+  if (state.mode === "planned") {
+    return (state.flatIntervals[state.currentIntervalIndex]?.durationMinutes ?? 0) * 60;
+  }
+  if (state.isWorking) return state.workMinutes * 60;
+  return (state.isLongBreak ? state.longBreakMinutes : state.breakMinutes) * 60;
+}
+
+// The fields other tabs mirror and the session snapshot persists
+export function toSyncedState(state: TimerState): SyncedTimerState {
+  return {
+    mode: state.mode,
+    workMinutes: state.workMinutes,
+    breakMinutes: state.breakMinutes,
+    totalPomodoros: state.totalPomodoros,
+    longBreakMinutes: state.longBreakMinutes,
+    longBreakInterval: state.longBreakInterval,
+    isRunning: state.isRunning,
+    isWorking: state.isWorking,
+    isLongBreak: state.isLongBreak,
+    timerComplete: state.timerComplete,
+    currentPomodoro: state.currentPomodoro,
+    currentIntervalIndex: state.currentIntervalIndex,
+    flatIntervals: state.flatIntervals,
+    endTime: state.endTime,
+    timeLeft: state.timeLeft,
+    isPlannedRunning: state.isPlannedRunning,
+  };
+}
+
+// --- Interval sequencing ---
+
+// Moves to the interval after the current one: work→break (long every
+// longBreakInterval-th pomodoro) or break→work in quick mode, the next
+// planned interval in planned mode. Past the last one the session is
+// complete — in quick mode after the last pomodoro's break if that one is
+// a long break (4 of 4 by default), else straight after its work. Returns the new position and the new interval's length; endTime
+// is left to the caller. Also used to fast-forward saved sessions.
+export function advanceInterval<T extends PomodoroSnapshot>(
+  state: T,
+): { state: T; durationMinutes: number } {
+  const complete = (): { state: T; durationMinutes: number } => ({
+    state: { ...state, timerComplete: true, isRunning: false, timeLeft: 0 },
+    durationMinutes: 0,
+  });
+
+  if (state.mode === "quick") {
+    if (state.isWorking) {
+      const nextPomodoro = state.currentPomodoro + 1;
+      const isLongBreak =
+        state.longBreakInterval > 0 && nextPomodoro % state.longBreakInterval === 0;
+      if (nextPomodoro >= state.totalPomodoros && !isLongBreak) return complete();
+      const durationMinutes = isLongBreak ? state.longBreakMinutes : state.breakMinutes;
+      return {
+        state: {
+          ...state,
+          isWorking: false,
+          isLongBreak,
+          currentPomodoro: nextPomodoro,
+          timeLeft: durationMinutes * 60,
+        },
+        durationMinutes,
+      };
+    }
+    if (state.currentPomodoro >= state.totalPomodoros) return complete();
+    return {
+      state: {
+        ...state,
+        isWorking: true,
+        isLongBreak: false,
+        timeLeft: state.workMinutes * 60,
+      },
+      durationMinutes: state.workMinutes,
+    };
+  }
+
+  const nextIndex = state.currentIntervalIndex + 1;
+  const next = state.flatIntervals[nextIndex];
+  if (!next) return complete();
+  return {
+    state: {
+      ...state,
+      currentIntervalIndex: nextIndex,
+      isWorking: next.type === "work",
+      timeLeft: next.durationMinutes * 60,
+    },
+    durationMinutes: next.durationMinutes,
+  };
+}
+
+// Back to the first interval of the session, not running
+function rewind(state: TimerState): TimerState {
+  if (state.mode === "quick") {
+    return {
+      ...state,
+      isWorking: true,
+      isLongBreak: false,
+      currentPomodoro: 0,
+      timeLeft: state.workMinutes * 60,
+      timerComplete: false,
+    };
+  }
+  const first = state.flatIntervals[0];
+  return {
+    ...state,
+    currentIntervalIndex: 0,
+    isWorking: first ? first.type === "work" : state.isWorking,
+    timeLeft: first ? first.durationMinutes * 60 : state.timeLeft,
+    timerComplete: false,
+  };
+}
+
+// --- Running / paused ---
+
+function play(state: TimerState, now: number): TimerState {
+  const next = { ...state, isRunning: true, hasBeenStarted: true };
+  if (!isCounting(next)) return next;
+  return {
+    ...next,
+    endTime: now + next.timeLeft * 1000,
+    intervalStartedAt: next.intervalStartedAt ?? now,
+  };
+}
+
+function pause(state: TimerState, now: number): TimerState {
+  return { ...state, timeLeft: remainingSeconds(state, now), isRunning: false };
+}
+
+// While an untouched quick timer sits idle, its display follows the
+// settings. Once it has been started, changing settings leaves timeLeft alone.
+function syncIdleTimeLeft(state: TimerState): TimerState {
+  if (state.mode !== "quick" || state.isRunning || state.hasBeenStarted) {
+    return state;
+  }
+  return { ...state, timeLeft: intervalSeconds(state) };
+}
+
+// Ends the current interval — because it ran out or was skipped — and moves
+// to the next one, keeping the running state. Skips aren't announced: the
+// user already knows.
+function finishInterval(state: TimerState, now: number, skipped: boolean): TimerStep {
+  const plannedSeconds = intervalSeconds(state);
+  const actualSeconds = skipped
+    ? Math.max(0, plannedSeconds - remainingSeconds(state, now))
+    : plannedSeconds;
+  const effects: TimerEffect[] = [
+    {
+      type: "intervalEnded",
+      interval: {
+        type: state.isWorking ? "work" : "break",
+        plannedSeconds,
+        actualSeconds,
+        // An interval skipped before it ever ran has no start of its own
+        startedAt: state.intervalStartedAt ?? now - actualSeconds * 1000,
+        endedAt: now,
+        skipped,
+      },
+    },
+  ];
+
+  const { state: advanced, durationMinutes } = advanceInterval(state);
+  const next: TimerState = {
+    ...advanced,
+    endTime: now + durationMinutes * 60 * 1000,
+    intervalStartedAt: null,
+  };
+  if (isCounting(next)) next.intervalStartedAt = now;
+
+  if (!skipped) {
+    effects.push(
+      next.timerComplete
+        ? { type: "notify", transition: "sessionComplete" }
+        : {
+            type: "notify",
+            transition: next.isWorking ? "breakToWork" : "workToBreak",
+            durationMinutes,
+          },
+    );
+  }
+  return { state: next, effects };
+}
+
+// --- The machine ---
+
+export function stepTimer(
+  state: TimerState,
+  action: TimerAction,
+  clock: Clock = systemClock,
+): TimerStep {
+  const now = clock.now();
+  const done = (next: TimerState): TimerStep => ({ state: next, effects: [] });
+
+  switch (action.type) {
+    case "toggle": {
+      if (state.isRunning) return done(pause(state, now));
+      // Starting a completed session starts it over
+      return done(play(state.timerComplete ? rewind(state) : state, now));
+    }
+
+    case "setRunning": {
+      if (action.running === state.isRunning || state.timerComplete) {
+        return done(state);
+      }
+      return done(action.running ? play(state, now) : pause(state, now));
+    }
+
+    case "tick": {
+      if (!isCounting(state)) return done(state);
+      if (now >= state.endTime) return finishInterval(state, now, false);
+      const timeLeft = remainingSeconds(state, now);
+      return done(timeLeft === state.timeLeft ? state : { ...state, timeLeft });
+    }
+
+    case "skip": {
+      if (state.timerComplete) return done(state);
+      if (state.mode === "planned" && !state.isPlannedRunning) return done(state);
+      return finishInterval(state, now, true);
+    }
+
+    case "reset":
+      return done({
+        ...rewind(state),
+        isRunning: false,
+        hasBeenStarted: false,
+        intervalStartedAt: null,
+      });
+
+    case "startPlanned": {
+      const first = action.intervals[0];
+      return done({
+        ...state,
+        flatIntervals: action.intervals,
+        currentIntervalIndex: 0,
+        isWorking: first ? first.type === "work" : state.isWorking,
+        timeLeft: first ? first.durationMinutes * 60 : state.timeLeft,
+        timerComplete: false,
+        isRunning: false,
+        isPlannedRunning: true,
+        intervalStartedAt: null,
+      });
+    }
+
+    case "cancelPlanned":
+      return done({
+        ...state,
+        isRunning: false,
+        hasBeenStarted: false,
+        intervalStartedAt: null,
+        isPlannedRunning: false,
+        timerComplete: false,
+        flatIntervals: [],
+        currentIntervalIndex: 0,
+      });
+
+    case "preset": {
+      const next = {
+        ...state,
+        workMinutes: action.workMinutes,
+        breakMinutes: action.breakMinutes,
+      };
+      // Show the new work length straight away unless the timer is running
+      return done(
+        syncIdleTimeLeft(
+          next.isRunning
+            ? next
+            : { ...next, isWorking: true, timeLeft: action.workMinutes * 60 },
+        ),
+      );
+    }
+
+    case "setting":
+      return done(syncIdleTimeLeft({ ...state, [action.key]: action.value }));
+
+    case "resume": {
+      const { snapshot } = action;
+      const next: TimerState = {
+        ...state,
+        ...snapshot,
+        mode: state.mode,
+        isPlannedRunning: state.mode === "planned",
+        hasBeenStarted: true,
+        intervalStartedAt: null,
+      };
+      // A running snapshot keeps its own end timestamp
+      if (isCounting(next)) next.intervalStartedAt = now;
+      return done(next);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { TimerWorkerRequest, TimerWorkerEvent } from "./types";
+
+// =============================================================================
+// Timer scheduler — wakes the timer up every second and at the interval end
+// =============================================================================
+//
+// usePomodoro calls start(endTime, handlers) whenever the timer is running
+// and stop() when it pauses or the interval changes. onTick fires about once
+// a second, onExpire once when endTime is reached.
+//
+// The scheduling happens in timerWorker.ts so it keeps time in background
+// tabs. The worker is spawned on the first start(), so idle pages never
+// create one. Where workers are unavailable, the same schedule runs on
+// main-thread timers and usePomodoro's visibilitychange catch-up covers
+// the throttling.
+
+export interface TimerHandlers {
+  onTick: () => void;
+  onExpire: () => void;
+}
+
+export interface TimerScheduler {
+  start: (endTime: number, handlers: TimerHandlers) => void;
+  stop: () => void;
+  dispose: () => void;
+}
+
+const TICK_MS = 1000;
+
+// --- Worker-backed scheduler ---
+
+function createWorkerScheduler(): TimerScheduler {
+  let worker: Worker | null = null;
+  let handlers: TimerHandlers | null = null;
+  // Id of the live schedule; events from older ones are dropped
+  let currentId = 0;
+
+  const send = (request: TimerWorkerRequest) => worker?.postMessage(request);
+
+  const handleEvent = (event: MessageEvent<TimerWorkerEvent>) => {
+    const { type, id } = event.data;
+    if (id !== currentId || !handlers) return;
+    if (type === "tick") {
+      handlers.onTick();
+    } else {
+      const { onExpire } = handlers;
+      handlers = null;
+      onExpire();
+    }
+  };
+
+  return {
+    start(endTime, nextHandlers) {
+      if (!worker) {
+        worker = new Worker(new URL("./timerWorker.ts", import.meta.url), {
+          type: "module",
+        });
+        worker.addEventListener("message", handleEvent);
+      }
+      handlers = nextHandlers;
+      currentId++;
+      send({ type: "start", id: currentId, endTime });
+    },
+    stop() {
+      handlers = null;
+      currentId++;
+      send({ type: "stop" });
+    },
+    dispose() {
+      handlers = null;
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
+
+// --- Main-thread fallback ---
+
+function createMainThreadScheduler(): TimerScheduler {
+  let tickId: number | null = null;
+  let expireId: number | null = null;
+
+  const stop = () => {
+    if (tickId !== null) window.clearInterval(tickId);
+    if (expireId !== null) window.clearTimeout(expireId);
+    tickId = null;
+    expireId = null;
+  };
+
+  // Same early-firing guard as the worker
+  const scheduleExpire = (endTime: number, onExpire: () => void) => {
+    expireId = window.setTimeout(() => {
+      if (Date.now() < endTime) {
+        scheduleExpire(endTime, onExpire);
+        return;
+      }
+      stop();
+      onExpire();
+    }, Math.max(0, endTime - Date.now()));
+  };
+
+  return {
+    start(endTime, handlers) {
+      stop();
+      tickId = window.setInterval(handlers.onTick, TICK_MS);
+      scheduleExpire(endTime, handlers.onExpire);
+    },
+    stop,
+    dispose: stop,
+  };
+}
+
+export function createTimerScheduler(): TimerScheduler {
+  return typeof Worker === "undefined"
+    ? createMainThreadScheduler()
+    : createWorkerScheduler();
+}
@@ -0,0 +1,64 @@
+import type { TimerWorkerRequest, TimerWorkerEvent } from "./types";
+
+// =============================================================================
+// Countdown worker — schedules timer ticks off the main thread
+// =============================================================================
+//
+// Browsers throttle timers in background tabs (Chrome down to once a minute),
+// so a window.setInterval countdown can end a work interval up to a minute
+// late — with Spotify still playing into the break. Timers in a dedicated
+// worker aren't throttled that way, so usePomodoro hands its scheduling to
+// this worker via timerScheduler.ts.
+//
+// The worker only knows when the current interval ends. It posts a "tick"
+// every second so the page can redraw, and an "expire" at endTime itself.
+// It holds no timer state: the page still derives timeLeft from the end
+// timestamp and decides what the next interval is.
+//
+// Runs in the worker global scope; the app's tsconfig only has the DOM lib,
+// so the scope is typed by hand below.
+
+interface TimerWorkerScopeLike {
+  postMessage(message: TimerWorkerEvent): void;
+  addEventListener(
+    type: "message",
+    listener: (e: MessageEvent<TimerWorkerRequest>) => void,
+  ): void;
+}
+
+const scope = self as unknown as TimerWorkerScopeLike;
+
+const TICK_MS = 1000;
+
+let tickId: ReturnType<typeof setInterval> | null = null;
+let expireId: ReturnType<typeof setTimeout> | null = null;
+
+function clearSchedule(): void {
+  if (tickId !== null) clearInterval(tickId);
+  if (expireId !== null) clearTimeout(expireId);
+  tickId = null;
+  expireId = null;
+}
+
+// Timers may fire a few ms early; "expire" must never arrive before endTime
+// or the page would see time left and miss the transition.
+function scheduleExpire(id: number, endTime: number): void {
+  expireId = setTimeout(() => {
+    if (Date.now() < endTime) {
+      scheduleExpire(id, endTime);
+      return;
+    }
+    clearSchedule();
+    scope.postMessage({ type: "expire", id });
+  }, Math.max(0, endTime - Date.now()));
+}
+
+scope.addEventListener("message", (event) => {
+  const request = event.data;
+  clearSchedule();
+  if (request.type !== "start") return;
+
+  const { id, endTime } = request;
+  tickId = setInterval(() => scope.postMessage({ type: "tick", id }), TICK_MS);
+  scheduleExpire(id, endTime);
+});
@@ -2,7 +2,8 @@
 // Media Provider
 // =============================================================================
 //
-// Common interface for all media sources (YouTube, Spotify, NTS).
+// Common interface for all media sources (YouTube, Spotify, NTS, internet
+// radio, ambient noise, local files).
 // The pomodoro timer calls play()/pause() on the provider to sync media
 // playback with work/break intervals. Each provider implements this contract
 // differently — YouTube talks to a local IFrame API, Spotify calls a REST API,
@@ -14,17 +15,25 @@ export interface MediaProvider {
   // Returns true when the provider is in a state where play/pause will work.
   // For YouTube: the player has been created. For Spotify: we have a valid token.
   // For NTS: always true (the <audio> element is always available).
+  // For internet radio: a station has been selected.
+  // For ambient noise: the browser supports Web Audio.
+  // For local files: at least one file has been picked.
   isReady(): boolean;
   // Optional hooks for bidirectional sync — when the user manually clicks
   // play/pause on the media player itself (e.g. YouTube controls), the
   // provider can notify the pomodoro timer. Only YouTube uses this today.
   setOnUserPlay?: (cb: (() => void) | null) => void;
   setOnUserPause?: (cb: (() => void) | null) => void;
+  // Optional volume control, used to fade work media in and out around
+  // transitions (see usePomodoro). `level` scales the source's normal
+  // volume: 1 is whatever the user has set, 0 is silent. YouTube, Spotify
+  // and the live streams (NTS, internet radio) implement it.
+  setVolume?: (level: number) => void | Promise<void>;
   cleanup(): void;
 }
 
 // Which media source the user has selected at the top level.
-export type MediaSource = "youtube" | "spotify" | "nts";
+export type MediaSource = "youtube" | "spotify" | "nts" | "radio" | "noise" | "local";
 
 // Which session mode is active within a source.
 export type SessionMode = "quick" | "planned";
@@ -36,11 +45,45 @@ export type SessionMode = "quick" | "planned";
 // YouTube IFrame API player methods we use.
 // The actual YT.Player has many more methods, but we only type what we need.
 export interface YouTubePlayer {
-  loadVideoById: (videoId: string) => void;
+  loadVideoById: (video: string | YouTubeVideoRequest) => void;
+  cueVideoById: (video: string | YouTubeVideoRequest) => void;
+  loadPlaylist: (playlist: YouTubePlaylistRequest) => void;
+  cuePlaylist: (playlist: YouTubePlaylistRequest) => void;
+  // Video IDs of the loaded playlist, or null before it has been fetched
+  getPlaylist: () => string[] | null;
+  getPlaylistIndex: () => number;
+  playVideoAt: (index: number) => void;
   playVideo: () => void;
   pauseVideo: () => void;
   getPlayerState: () => number;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  // URL of the loaded video, e.g. https://www.youtube.com/watch?v=ID
+  getVideoUrl: () => string;
+  getVolume: () => number; // 0..100
+  setVolume: (volume: number) => void;
   setSize: (width: number, height: number) => void;
+  destroy: () => void;
+}
+
+// Object form of loadVideoById/cueVideoById. With endSeconds set, the player
+// reports "ended" (state 0) when it gets there.
+export interface YouTubeVideoRequest {
+  videoId: string;
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+// Optional part of a video to play instead of the whole thing
+export interface VideoSegment {
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export interface YouTubePlaylistRequest {
+  list: string;
+  listType: "playlist";
+  index?: number;
 }
 
 export interface YouTubeEvent {
@@ -55,6 +98,9 @@ export interface VideoHistoryItem {
   title?: string;
   thumbnail?: string;
   addedAt: number;
+  // Where playback last got to, in seconds; unset once the video was
+  // watched to the end
+  position?: number;
 }
 
 // Extends Window with the YouTube IFrame API globals.
@@ -62,19 +108,26 @@ export interface VideoHistoryItem {
 export interface YouTubeWindow extends Window {
   YT: {
     Player: new (
-      elementId: string,
+      elementId: string | HTMLElement,
       config: {
         height?: string | number;
         width?: string | number;
-        videoId: string;
+        videoId?: string;
         playerVars: {
           autoplay: number;
           controls: number;
           rel: number;
+          // Segment of the initial video, in whole seconds
+          start?: number;
+          end?: number;
+          // Load a playlist instead of a single video
+          listType?: "playlist";
+          list?: string;
         };
         events: {
           onStateChange: (event: YouTubeEvent) => void;
           onReady?: (event: { target: YouTubePlayer }) => void;
+          onError?: (event: YouTubeEvent) => void;
         };
       },
     ) => YouTubePlayer;
@@ -105,22 +158,80 @@ export interface SpotifyAlbum {
 
 export interface SpotifyTrack {
   id: string;
+  uri: string;
   name: string;
   artists: SpotifyArtist[];
   album?: SpotifyAlbum;
 }
 
+// A Spotify Connect device from GET /me/player/devices. Restricted devices
+// can't be controlled through the Web API.
+export interface SpotifyDevice {
+  id: string | null;
+  name: string;
+  type: string; // "Computer", "Smartphone", "Speaker", ...
+  is_active: boolean;
+  is_restricted: boolean;
+  volume_percent?: number | null;
+}
+
+// The in-page Spotify Connect device from the Web Playback SDK.
+// "unavailable" covers unsupported browsers and non-Premium accounts; play()
+// then falls back to the user's remote devices.
+export type SpotifyBrowserPlayerStatus = "off" | "connecting" | "ready" | "unavailable";
+
+// Web Playback SDK player methods we use.
+export interface SpotifyWebPlayer {
+  connect: () => Promise<boolean>;
+  disconnect: () => void;
+  activateElement: () => Promise<void>;
+  addListener(
+    event: "ready" | "not_ready",
+    callback: (data: { device_id: string }) => void,
+  ): boolean;
+  addListener(
+    event: "initialization_error" | "authentication_error" | "account_error" | "playback_error",
+    callback: (error: { message: string }) => void,
+  ): boolean;
+}
+
+// Extends Window with the Web Playback SDK globals.
+export interface SpotifyWindow extends Window {
+  Spotify: {
+    Player: new (options: {
+      name: string;
+      getOAuthToken: (callback: (token: string) => void) => void;
+      volume?: number;
+    }) => SpotifyWebPlayer;
+  };
+  onSpotifyWebPlaybackSDKReady: () => void;
+}
+
 export interface SpotifyPlaybackState {
   device?: {
     id: string;
     name: string;
     type: string;
+    volume_percent?: number | null;
   };
   is_playing?: boolean;
+  progress_ms?: number | null;
   item?: SpotifyTrack;
+  // The playlist/album being played, if any
+  context?: { uri: string } | null;
   message?: string; // For "No active device found" message
 }
 
+// What to play during work intervals: a playlist, an album or a single
+// track, chosen in SpotifyContextPicker and saved per Spotify user.
+export interface SpotifyPlaybackContext {
+  uri: string; // "spotify:playlist:…", "spotify:album:…" or "spotify:track:…"
+  kind: "playlist" | "album" | "track";
+  name: string;
+  subtitle?: string; // owner or artists
+  imageUrl?: string;
+}
+
 export interface SpotifyUserProfile {
   id: string;
   display_name: string;
@@ -142,6 +253,66 @@ export interface SpotifyTokenResponse {
 
 export type NTSChannel = 1 | 2;
 
+// =============================================================================
+// Internet radio types
+// =============================================================================
+
+// A user-saved Icecast/SHOUTcast (or any plain HTTP audio) stream.
+export interface RadioStation {
+  id: string;
+  name: string;
+  url: string;
+  addedAt: number;
+}
+
+// =============================================================================
+// Ambient noise types
+// =============================================================================
+
+export type NoiseColor = "white" | "pink" | "brown" | "rain";
+
+// Per-layer mix levels (0–1) plus a master volume (0–1).
+export interface NoiseSettings {
+  levels: Record<NoiseColor, number>;
+  volume: number;
+}
+
+// =============================================================================
+// Local file types
+// =============================================================================
+
+// An audio file the user picked from disk. The File is held in memory only —
+// browsers don't let us re-open it after a reload without asking again.
+export interface LocalTrack {
+  id: string;
+  name: string;
+  file: File;
+}
+
+export type RepeatMode = "off" | "all" | "one";
+
+// The parts of the File System Access API we use. Not yet in TypeScript's
+// DOM lib, and only available in Chromium — callers must feature-detect.
+export interface FileSystemFileHandleLike {
+  kind: "file";
+  name: string;
+  getFile: () => Promise<File>;
+}
+
+export interface FileSystemDirectoryHandleLike {
+  kind: "directory";
+  name: string;
+  values: () => AsyncIterable<FileSystemFileHandleLike | FileSystemDirectoryHandleLike>;
+}
+
+export interface FileSystemAccessWindow extends Window {
+  showOpenFilePicker?: (options?: {
+    multiple?: boolean;
+    types?: { description?: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandleLike[]>;
+  showDirectoryPicker?: () => Promise<FileSystemDirectoryHandleLike>;
+}
+
 // =============================================================================
 // Planned Session types
 // =============================================================================
@@ -164,9 +335,282 @@ export interface FlatInterval {
 }
 
 // A video in the planned session's playlist queue (YouTube only)
-export interface QueuedVideo {
+export interface QueuedVideo extends VideoSegment {
   id: string;
   url: string;
   title?: string;
   thumbnail?: string;
 }
+
+// A plan as written to / read from a .json file (see planFiles.ts). Block
+// ids are not stored — they're regenerated on import.
+export interface PlanFile {
+  format: "pomodoro-plan";
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  blocks: Omit<IntervalBlock, "id">[];
+  videoQueue?: QueuedVideo[]; // YouTube plans only
+}
+
+// A successfully imported plan, ready to load into a planned page.
+export interface ImportedPlan {
+  blocks: IntervalBlock[];
+  videoQueue?: QueuedVideo[];
+}
+
+// A named plan in the template library (see usePlanTemplates). Templates
+// are shared by every source, so they hold interval blocks only.
+export interface PlanTemplate {
+  id: string;
+  name: string;
+  blocks: Omit<IntervalBlock, "id">[];
+  createdAt: number;
+}
+
+// =============================================================================
+// Session persistence types
+// =============================================================================
+
+// The usePomodoro timer state at its last transition, persisted so a reload
+// or crash can resume where the user left off.
+export interface PomodoroSnapshot {
+  mode: SessionMode;
+  // Quick mode settings
+  workMinutes: number;
+  breakMinutes: number;
+  totalPomodoros: number;
+  longBreakMinutes: number;
+  longBreakInterval: number;
+  // Timer state
+  isRunning: boolean;
+  isWorking: boolean;
+  isLongBreak: boolean;
+  timerComplete: boolean;
+  currentPomodoro: number;
+  currentIntervalIndex: number;
+  flatIntervals: FlatInterval[];
+  // Epoch ms at which the current interval ends. Only meaningful while
+  // running — a paused timer is described by timeLeft alone.
+  endTime: number;
+  timeLeft: number; // seconds
+}
+
+// Page-specific state saved alongside the timer so the page can rebuild
+// itself on resume (the plan, and for YouTube the video(s) being played).
+export interface SessionExtras {
+  intervalBlocks?: IntervalBlock[];
+  videoQueue?: QueuedVideo[];
+  currentVideoIndex?: number;
+  videoId?: string;
+  videoSegment?: VideoSegment;
+  playlistId?: string; // YouTube quick session playing a playlist
+}
+
+export interface SavedSession {
+  version: 1;
+  savedAt: number;
+  timer: PomodoroSnapshot;
+  extras?: SessionExtras;
+}
+
+// =============================================================================
+// Cross-tab sync types
+// =============================================================================
+
+// Whether this tab owns the timer ("leader") or mirrors another tab's timer
+// and forwards its controls to it ("follower"). "pending" covers the moment
+// between mount and the election resolving.
+export type TabRole = "pending" | "leader" | "follower";
+
+// Timer state the leader broadcasts to follower tabs on every change.
+export interface SyncedTimerState extends PomodoroSnapshot {
+  isPlannedRunning: boolean;
+}
+
+// Controls a follower forwards to the leader instead of running them locally.
+export type TimerCommand =
+  | { kind: "toggle" }
+  | { kind: "skip" }
+  | { kind: "reset" }
+  | { kind: "cancel" }
+  | { kind: "start"; intervals: FlatInterval[] }
+  | { kind: "preset"; workMinutes: number; breakMinutes: number }
+  | { kind: "setting"; key: TimerSettingKey; value: number };
+
+// =============================================================================
+// Notification types
+// =============================================================================
+
+// The timer-driven transitions the user can be alerted about.
+export type TimerTransition = "workToBreak" | "breakToWork" | "sessionComplete";
+
+// Synthesised chime voices (see playChime in notifications.ts)
+export type ChimeStyle = "bell" | "digital" | "soft";
+
+// Opt-in alert preferences, shared by every source and persisted in
+// localStorage.
+export interface NotificationSettings {
+  desktop: boolean; // raise a Web Notification
+  sound: boolean; // play a chime
+  chimeStyle: ChimeStyle;
+  volume: number; // 0..1
+  // Per-transition toggles
+  transitions: Record<TimerTransition, boolean>;
+}
+
+// =============================================================================
+// Volume fade types
+// =============================================================================
+
+// How work media fades around transitions (see fadeSettings.ts), shared by
+// every source and persisted in localStorage. Seconds over which it fades in
+// at the start of a work interval and out before its end; 0 cuts straight
+// in or out.
+export interface FadeSettings {
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+}
+
+// =============================================================================
+// Session history types
+// =============================================================================
+
+// One finished interval, as logged to IndexedDB by usePomodoro. Intervals
+// abandoned by a reset or cancel are not logged.
+export interface IntervalLogEntry {
+  id?: number; // assigned by IndexedDB
+  source: MediaSource;
+  mode: SessionMode;
+  type: "work" | "break";
+  plannedSeconds: number;
+  // Timer time actually spent in the interval — equals plannedSeconds unless
+  // the interval was skipped part-way.
+  actualSeconds: number;
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  skipped: boolean;
+}
+
+// =============================================================================
+// Keyboard shortcut types
+// =============================================================================
+
+// One entry in a page's shortcut layer (see useKeyboardShortcuts).
+export interface KeyboardShortcut {
+  keys: string[]; // KeyboardEvent.key values, compared case-insensitively
+  label: string; // how the key is shown in the help overlay, e.g. "Space"
+  description: string;
+  action: () => void;
+}
+
+// =============================================================================
+// Timer worker types
+// =============================================================================
+
+// Messages between usePomodoro's scheduler and the countdown worker (see
+// timerWorker.ts). Every schedule carries an id so events from a schedule
+// that has since been replaced or stopped can be ignored.
+export type TimerWorkerRequest =
+  | { type: "start"; id: number; endTime: number } // endTime in epoch ms
+  | { type: "stop" };
+
+export type TimerWorkerEvent =
+  | { type: "tick"; id: number } // roughly once a second while scheduled
+  | { type: "expire"; id: number }; // endTime has been reached
+
+// =============================================================================
+// Timer state machine types
+// =============================================================================
+
+// Source of the current time for the timer machine (see timerMachine.ts).
+// usePomodoro uses the system clock; anything else can pass a fake one.
+export interface Clock {
+  now: () => number; // epoch ms
+}
+
+// The quick-mode settings that can be changed one at a time.
+export type TimerSettingKey =
+  | "workMinutes"
+  | "breakMinutes"
+  | "totalPomodoros"
+  | "longBreakMinutes"
+  | "longBreakInterval";
+
+// Everything the timer machine tracks. The synced fields are what tabs
+// share and what is persisted; the rest only matters to the tab running it.
+export interface TimerState extends SyncedTimerState {
+  // Set on the first start since the last reset. While false, changing the
+  // quick-mode settings also updates timeLeft; once the timer has run,
+  // pausing must not lose the user's place.
+  hasBeenStarted: boolean;
+  // When the current interval first started counting down, for the history
+  // log. null until it does.
+  intervalStartedAt: number | null;
+}
+
+export type TimerAction =
+  | { type: "toggle" } // start/pause; restarts a completed session
+  | { type: "setRunning"; running: boolean } // play/pause from the media player
+  | { type: "tick" } // scheduler wake-up: recompute timeLeft, transition at 0
+  | { type: "skip" }
+  | { type: "reset" }
+  | { type: "startPlanned"; intervals: FlatInterval[] }
+  | { type: "cancelPlanned" }
+  | { type: "preset"; workMinutes: number; breakMinutes: number }
+  | { type: "setting"; key: TimerSettingKey; value: number }
+  | { type: "resume"; snapshot: PomodoroSnapshot }; // already fast-forwarded
+
+// Side effects a step asks its caller to carry out. The machine itself
+// never touches notifications, storage or media.
+export type TimerEffect =
+  | {
+      type: "intervalEnded";
+      interval: Omit<IntervalLogEntry, "id" | "source" | "mode">;
+    }
+  | {
+      type: "notify";
+      transition: TimerTransition;
+      durationMinutes?: number; // length of the interval that just began
+    };
+
+export interface TimerStep {
+  state: TimerState;
+  effects: TimerEffect[];
+}
+
+// =============================================================================
+// Task types
+// =============================================================================
+
+// A to-do the user works on across pomodoros. Each completed work interval
+// is credited to the active task (see tasks.ts).
+export interface Task {
+  id: string;
+  title: string;
+  estimatedPomodoros: number;
+  completedPomodoros: number;
+  done: boolean;
+  createdAt: number;
+}
+
+// The persisted task list, shared by every source.
+export interface TaskList {
+  tasks: Task[];
+  activeTaskId: string | null;
+}
+
+// =============================================================================
+// Break media types
+// =============================================================================
+
+// What plays during breaks (see useBreakMedia). "silence" keeps the old
+// behaviour of just pausing the work media; "spotify" is only offered on the
+// Spotify pages, where the break playlist is picked like the work music.
+export type BreakMediaKind = "silence" | "chime" | "youtube" | "spotify";
+
+// One source's break media choice, persisted per source in localStorage.
+export interface BreakMediaSettings {
+  kind: BreakMediaKind;
+  youtubeVideoId?: string;
+  youtubeTitle?: string;
+}
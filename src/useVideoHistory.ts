@@ -1,10 +1,44 @@
-import { useState, useEffect } from "react";
-import type { VideoHistoryItem } from "./types";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { VideoHistoryItem, VideoSegment } from "./types";
 import { fetchVideoData } from "./utils";
 
 const STORAGE_KEY = "pomodoro-video-history";
 const MAX_HISTORY = 20;
 
+// Positions this close to the start aren't worth offering to resume, and
+// ones this close to the end count as finished
+const RESUME_MIN_SECONDS = 10;
+const FINISHED_MARGIN_SECONDS = 15;
+
+// The saved position of a video if it's worth resuming from, i.e. not
+// right at the start and inside the segment being played
+export function resumablePosition(
+  item: VideoHistoryItem | undefined,
+  segment: VideoSegment = {},
+): number | null {
+  const position = item?.position;
+  if (position === undefined) return null;
+  if (position < (segment.startSeconds ?? 0) + RESUME_MIN_SECONDS) return null;
+  if (segment.endSeconds !== undefined && position >= segment.endSeconds) return null;
+  return position;
+}
+
+// The history with a video's position updated, or the same array if the
+// video isn't in it or its position hasn't changed. Whole seconds are
+// enough, and keep the periodic saves from rewriting an unchanged list.
+function withPosition(
+  history: VideoHistoryItem[],
+  id: string,
+  seconds: number,
+  duration: number,
+): VideoHistoryItem[] {
+  const finished = duration > 0 && duration - seconds < FINISHED_MARGIN_SECONDS;
+  const position = finished ? undefined : Math.floor(seconds);
+  const item = history.find((v) => v.id === id);
+  if (!item || item.position === position) return history;
+  return history.map((v) => (v.id === id ? { ...v, position } : v));
+}
+
 // Manages the list of previously-loaded YouTube videos, persisted in localStorage.
 // Both the Quick Session and Planned Session tabs share the same history list,
 // so this hook reads/writes to a single localStorage key.
@@ -12,8 +46,12 @@ const MAX_HISTORY = 20;
 // The history is capped at MAX_HISTORY items. Adding an already-existing video
 // bumps it to the top. New videos get their title and thumbnail fetched via
 // the YouTube oEmbed API (no API key needed).
+//
+// Each item also remembers how far the video was played (savePosition, fed
+// by useVideoPositionTracking), so the pages can offer to resume it.
 export function useVideoHistory() {
   const [videoHistory, setVideoHistory] = useState<VideoHistoryItem[]>([]);
+  const videoHistoryRef = useRef(videoHistory);
 
   // Load saved history from localStorage on first mount
   useEffect(() => {
@@ -29,6 +67,7 @@ export function useVideoHistory() {
 
   // Persist to localStorage whenever history changes
   useEffect(() => {
+    videoHistoryRef.current = videoHistory;
     localStorage.setItem(STORAGE_KEY, JSON.stringify(videoHistory));
   }, [videoHistory]);
 
@@ -65,5 +104,27 @@ export function useVideoHistory() {
     setVideoHistory([]);
   };
 
-  return { videoHistory, addToHistory, removeFromHistory, clearHistory };
+  // Only videos already in the history are tracked.
+  const savePosition = useCallback((id: string, seconds: number, duration: number) => {
+    setVideoHistory((prev) => withPosition(prev, id, seconds, duration));
+  }, []);
+
+  // Same, but written to localStorage straight away: for the page being
+  // closed, when the persist effect above won't get to run any more.
+  const savePositionNow = useCallback((id: string, seconds: number, duration: number) => {
+    const next = withPosition(videoHistoryRef.current, id, seconds, duration);
+    if (next === videoHistoryRef.current) return;
+    videoHistoryRef.current = next;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setVideoHistory(next);
+  }, []);
+
+  return {
+    videoHistory,
+    addToHistory,
+    removeFromHistory,
+    clearHistory,
+    savePosition,
+    savePositionNow,
+  };
 }
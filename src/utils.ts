@@ -1,4 +1,12 @@
-import type { IntervalBlock, FlatInterval, YouTubeWindow } from "./types";
+import type {
+  IntervalBlock,
+  FlatInterval,
+  VideoSegment,
+  YouTubePlayer,
+  YouTubeVideoRequest,
+  YouTubeWindow,
+  SpotifyWindow,
+} from "./types";
 
 // --- YouTube URL parsing ---
 
@@ -11,6 +19,97 @@ export function extractVideoId(url: string): string | null {
   return match && match[7].length === 11 ? match[7] : null;
 }
 
+// Extracts the playlist ID from a youtube.com/playlist?list=XXX URL. Watch
+// URLs that carry a list= as well are treated as the single video, which is
+// usually what was meant when copying from the address bar mid-playlist.
+export function extractPlaylistId(url: string): string | null {
+  if (extractVideoId(url)) return null;
+  const match = url.match(/[?&]list=([\w-]+)/);
+  return match ? match[1] : null;
+}
+
+export function playlistVideoUrl(videoId: string, playlistId: string): string {
+  return `https://www.youtube.com/watch?v=${videoId}&list=${playlistId}`;
+}
+
+// --- Video timestamps ---
+
+// Parses a time in YouTube's URL forms — "90", "90s", "1m30s", "1h2m3s" —
+// into seconds.
+function parseUrlTime(value: string): number | null {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!value || !match) return null;
+  const [, h = "0", m = "0", s = "0"] = match;
+  return parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10);
+}
+
+// Start offset from a URL's t= or start= parameter (as in YouTube's "share
+// at current time" links), if it has one
+export function extractStartSeconds(url: string): number | undefined {
+  const match = url.match(/[?&#](?:t|start)=([\dhms]+)/);
+  const seconds = match ? parseUrlTime(match[1]) : null;
+  return seconds || undefined;
+}
+
+// Parses a timestamp typed by the user: "1:02:03", "2:03", or any of the
+// URL forms above. Returns null if it isn't one.
+export function parseTimestamp(text: string): number | null {
+  const trimmed = text.trim();
+  if (/^\d+(:[0-5]?\d){1,2}$/.test(trimmed)) {
+    return trimmed.split(":").reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  }
+  return parseUrlTime(trimmed);
+}
+
+// Formats seconds the way YouTube shows timestamps: M:SS or H:MM:SS
+export function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export function toVideoRequest(videoId: string, segment: VideoSegment = {}): YouTubeVideoRequest {
+  return {
+    videoId,
+    startSeconds: segment.startSeconds,
+    endSeconds: segment.endSeconds,
+  };
+}
+
+// Loads a video into a player without changing whether it's playing: a
+// playing player starts the new one, a paused one only cues it.
+export function switchVideo(player: YouTubePlayer, request: YouTubeVideoRequest): void {
+  if (player.getPlayerState() === 1) {
+    player.loadVideoById(request);
+  } else {
+    player.cueVideoById(request);
+  }
+}
+
+// One step of a volume fade (see fadeLevel): scales the volume the user set
+// on the player. `base` holds that volume from the first step of a fade
+// until level 1 restores it.
+export function fadeYouTubeVolume(
+  player: YouTubePlayer,
+  level: number,
+  base: { current: number | null },
+): void {
+  if (!player.setVolume) return;
+  if (level >= 1) {
+    if (base.current !== null) player.setVolume(base.current);
+    base.current = null;
+    return;
+  }
+  base.current ??= player.getVolume();
+  player.setVolume(Math.round(base.current * level));
+}
+
+export function hasSegment(segment: VideoSegment): boolean {
+  return segment.startSeconds !== undefined || segment.endSeconds !== undefined;
+}
+
 // --- Time formatting ---
 
 // Formats seconds into MM:SS for the timer display
@@ -128,3 +227,86 @@ export function loadYouTubeApi(): Promise<void> {
   });
   return apiReadyPromise;
 }
+
+// --- YouTube playlist expansion ---
+
+// Give up on a playlist that hasn't loaded by then (private, deleted, ...)
+const PLAYLIST_TIMEOUT_MS = 15_000;
+
+// Resolves the video IDs of a YouTube playlist without an API key: a hidden
+// IFrame player cues the playlist and reads it back with getPlaylist(). The
+// IFrame API returns at most the first 200 videos.
+export async function fetchPlaylistVideoIds(playlistId: string): Promise<string[]> {
+  await loadYouTubeApi();
+  const ytWindow = window as unknown as YouTubeWindow;
+
+  const host = document.createElement("div");
+  host.style.position = "absolute";
+  host.style.left = "-9999px";
+  document.body.appendChild(host);
+
+  return new Promise((resolve, reject) => {
+    let player: YouTubePlayer | null = null;
+    let settled = false;
+
+    const finish = (ids: string[] | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      player?.destroy();
+      host.remove();
+      if (ids && ids.length > 0) {
+        resolve(ids);
+      } else {
+        reject(new Error("Couldn't load this playlist. Is it public?"));
+      }
+    };
+    const timeout = setTimeout(() => finish(null), PLAYLIST_TIMEOUT_MS);
+
+    player = new ytWindow.YT.Player(host, {
+      width: 1,
+      height: 1,
+      playerVars: { autoplay: 0, controls: 0, rel: 0 },
+      events: {
+        onReady: (event) => {
+          event.target.cuePlaylist({ list: playlistId, listType: "playlist" });
+        },
+        onStateChange: (event) => {
+          // 5 = video cued, i.e. the playlist has been fetched
+          if (event.data === 5) finish(event.target.getPlaylist());
+        },
+        onError: () => finish(null),
+      },
+    });
+  });
+}
+
+// --- Spotify Web Playback SDK loader ---
+
+let spotifySdkPromise: Promise<void> | null = null;
+
+// Loads the Web Playback SDK script once, like loadYouTubeApi. Resolves when
+// window.Spotify.Player is available.
+export function loadSpotifyPlaybackSdk(): Promise<void> {
+  const spotifyWindow = window as unknown as SpotifyWindow;
+
+  if (spotifyWindow.Spotify?.Player) return Promise.resolve();
+  if (spotifySdkPromise) return spotifySdkPromise;
+
+  spotifySdkPromise = new Promise((resolve, reject) => {
+    // The SDK calls this global as soon as it has loaded
+    spotifyWindow.onSpotifyWebPlaybackSDKReady = () => {
+      resolve();
+    };
+    const tag = document.createElement("script");
+    tag.src = "https://sdk.scdn.co/spotify-player.js";
+    tag.async = true;
+    tag.onerror = () => {
+      spotifySdkPromise = null;
+      tag.remove();
+      reject(new Error("Failed to load the Spotify Web Playback SDK"));
+    };
+    document.body.appendChild(tag);
+  });
+  return spotifySdkPromise;
+}
@@ -1,8 +1,66 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
+// The service worker (src/sw.ts) is built as a second Rollup entry and
+// emitted unhashed at /sw.js, so its URL stays stable across deploys.
+const SW_ENTRY = 'sw'
+const SW_FILE = 'sw.js'
+
+// Small string hash (FNV-1a) — only needs to change when the build does.
+function hashString(input: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+// Injects the list of emitted files (the app shell) and a build version into
+// sw.js. Emitted file names are content-hashed, so the version — and with it
+// the bytes of sw.js — changes whenever anything in the build does, which is
+// what makes browsers detect the new worker.
+function precacheManifest(): Plugin {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const sw = bundle[SW_FILE]
+      if (!sw || sw.type !== 'chunk') return
+
+      const files = Object.keys(bundle)
+        .filter((name) => name !== SW_FILE && !name.endsWith('.map'))
+        .sort()
+      if (!files.includes('index.html')) files.unshift('index.html')
+      const html = bundle['index.html']
+      const htmlSource =
+        html && html.type === 'asset' ? String(html.source) : ''
+
+      sw.code = sw.code
+        .replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(files))
+        .replaceAll(
+          '__PRECACHE_VERSION__',
+          JSON.stringify(hashString(files.join('\n') + htmlSource)),
+        )
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [tailwindcss(), react()],
+  plugins: [tailwindcss(), react(), precacheManifest()],
+  build: {
+    rollupOptions: {
+      input: {
+        index: 'index.html',
+        [SW_ENTRY]: 'src/sw.ts',
+      },
+      output: {
+        entryFileNames: (chunk) =>
+          chunk.name === SW_ENTRY ? SW_FILE : 'assets/[name]-[hash].js',
+      },
+    },
+  },
 })